@@ -0,0 +1,269 @@
+/**
+ * Unit tests for Arrecadacao class
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Arrecadacao } from './arrecadacao.js';
+import { BoletoValidationError } from './boleto.js';
+
+// Energy bill (segment 3), effective amount, modulo 10: R$ 123.45
+const ENERGY_BILL = '83650000001-0 23450048000-4 00000000000-0 00001234500-5';
+const ENERGY_BILL_CLEAN = '836500000010234500480004000000000000000012345005';
+const ENERGY_BILL_BARCODE = '83650000001234500480000000000000000001234500';
+
+// Government bill (segment 5), effective amount, modulo 11: R$ 99.90
+const GOVERNMENT_BILL = '858900000000999002702025500000000002000000010006';
+
+// Carnê (segment 6), reference value, modulo 10, company identified by CNPJ
+const CARNE_BILL = '867800000004100012345672800000000003000000004002';
+
+/**
+ * Replaces the digit at the given position with the next digit (mod 10)
+ */
+function tamper(number: string, position: number): string {
+  const digit = (parseInt(number[position]!, 10) + 1) % 10;
+  return number.slice(0, position) + digit + number.slice(position + 1);
+}
+
+describe('Arrecadacao', () => {
+  describe('constructor', () => {
+    it('should accept a clean 48-digit number', () => {
+      const bill = new Arrecadacao(ENERGY_BILL_CLEAN);
+      expect(bill.bankSlipNumber).toBe(ENERGY_BILL_CLEAN);
+    });
+
+    it('should strip non-digit characters from input', () => {
+      const bill = new Arrecadacao(ENERGY_BILL);
+      expect(bill.bankSlipNumber).toBe(ENERGY_BILL_CLEAN);
+    });
+
+    it('should throw BoletoValidationError for wrong length', () => {
+      expect(() => new Arrecadacao(ENERGY_BILL_CLEAN.slice(0, 47))).toThrow(
+        BoletoValidationError,
+      );
+    });
+
+    it('should throw BoletoValidationError for a 47-digit bank slip number', () => {
+      expect(
+        () =>
+          new Arrecadacao('23793381288600000000900000000380184660000012345'),
+      ).toThrow(BoletoValidationError);
+    });
+
+    it.each([
+      [ENERGY_BILL_CLEAN.slice(0, 40), 'INVALID_LENGTH'],
+      ['23793381288600000000900000000380184660000012345', 'UNSUPPORTED_TYPE'],
+      ['7' + ENERGY_BILL_CLEAN.slice(1), 'UNSUPPORTED_TYPE'],
+      [tamper(GOVERNMENT_BILL, 12), 'INVALID_FIELD_DV'],
+    ])('should describe the failure of %s in the error', (input, code) => {
+      try {
+        new Arrecadacao(input);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(BoletoValidationError);
+        expect((error as BoletoValidationError).code).toBe(code);
+      }
+    });
+
+    it('should report the block whose check digit does not match', () => {
+      try {
+        new Arrecadacao(tamper(ENERGY_BILL_CLEAN, 23));
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toMatchObject({
+          code: 'INVALID_FIELD_DV',
+          field: 2,
+          expected: '4',
+          actual: '5',
+        });
+      }
+    });
+
+    it('should report a wrong general check digit', () => {
+      // Change the general DV (barcode position 3) and recompute block 1's DV
+      try {
+        new Arrecadacao('83660000001' + '9' + ENERGY_BILL_CLEAN.slice(12));
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toMatchObject({
+          code: 'INVALID_GENERAL_DV',
+          expected: '5',
+          actual: '6',
+        });
+      }
+    });
+
+    it('should throw with message "Invalid bank slip number"', () => {
+      expect(() => new Arrecadacao('8'.repeat(48))).toThrow(
+        'Invalid bank slip number',
+      );
+    });
+  });
+
+  describe('valid', () => {
+    it('should validate a modulo-10 number', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).valid()).toBe(true);
+    });
+
+    it('should validate a modulo-11 number', () => {
+      expect(new Arrecadacao(GOVERNMENT_BILL).valid()).toBe(true);
+    });
+
+    it('should reject a number that does not start with 8', () => {
+      const mock = Object.assign(
+        Object.create(Arrecadacao.prototype) as Arrecadacao,
+        { bankSlipNumber: '7' + ENERGY_BILL_CLEAN.slice(1) },
+      );
+      expect(mock.valid()).toBe(false);
+    });
+
+    it('should reject an unknown value identifier', () => {
+      const mock = Object.assign(
+        Object.create(Arrecadacao.prototype) as Arrecadacao,
+        { bankSlipNumber: '835' + ENERGY_BILL_CLEAN.slice(3) },
+      );
+      expect(mock.valid()).toBe(false);
+    });
+
+    it.each([0, 11, 12, 23, 24, 35, 36, 47])(
+      'should reject a typo at position %i',
+      (position) => {
+        expect(
+          () => new Arrecadacao(tamper(GOVERNMENT_BILL, position)),
+        ).toThrow(BoletoValidationError);
+      },
+    );
+
+    it('should reject a wrong general check digit even with valid block check digits', () => {
+      // Change the general DV (barcode position 3) and recompute block 1's DV
+      const mock = Object.assign(
+        Object.create(Arrecadacao.prototype) as Arrecadacao,
+        { bankSlipNumber: '83660000001' + '9' + ENERGY_BILL_CLEAN.slice(12) },
+      );
+      expect(mock.valid()).toBe(false);
+    });
+  });
+
+  describe('barcode', () => {
+    it('should drop the four block check digits', () => {
+      const bill = new Arrecadacao(ENERGY_BILL_CLEAN);
+      expect(bill.barcode()).toBe(ENERGY_BILL_BARCODE);
+      expect(bill.barcode()).toHaveLength(44);
+    });
+  });
+
+  describe('number', () => {
+    it('should return the raw number', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).number()).toBe(
+        ENERGY_BILL_CLEAN,
+      );
+    });
+  });
+
+  describe('prettyNumber', () => {
+    it('should format the number in four blocks', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).prettyNumber()).toBe(
+        ENERGY_BILL,
+      );
+    });
+  });
+
+  describe('segment', () => {
+    it('should return the segment code and name', () => {
+      const bill = new Arrecadacao(ENERGY_BILL_CLEAN);
+      expect(bill.segment()).toBe('3');
+      expect(bill.segmentName()).toBe('Energia Elétrica e Gás');
+    });
+
+    it('should return "Unknown" for an unassigned segment', () => {
+      const mock = { segment: () => '8' } as unknown as Arrecadacao;
+      expect(Arrecadacao.prototype.segmentName.call(mock)).toBe('Unknown');
+    });
+  });
+
+  describe('valueType', () => {
+    it('should identify an effective amount', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).valueType()).toBe('effective');
+      expect(new Arrecadacao(GOVERNMENT_BILL).valueType()).toBe('effective');
+    });
+
+    it('should identify a reference value', () => {
+      expect(new Arrecadacao(CARNE_BILL).valueType()).toBe('reference');
+    });
+  });
+
+  describe('companyId', () => {
+    it('should return the 4-digit FEBRABAN code', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).companyId()).toBe('0048');
+    });
+
+    it('should return the CNPJ root for segment 6', () => {
+      expect(new Arrecadacao(CARNE_BILL).companyId()).toBe('12345678');
+    });
+  });
+
+  describe('checksum', () => {
+    it('should return the fourth digit of the barcode', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).checksum()).toBe('5');
+      expect(new Arrecadacao(GOVERNMENT_BILL).checksum()).toBe('9');
+    });
+  });
+
+  describe('amount', () => {
+    it('should compute the amount', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).amount()).toBe('123.45');
+      expect(new Arrecadacao(GOVERNMENT_BILL).amount()).toBe('99.90');
+    });
+  });
+
+  describe('prettyAmount', () => {
+    it('should format an effective amount in BRL', () => {
+      expect(new Arrecadacao(ENERGY_BILL_CLEAN).prettyAmount()).toBe(
+        'R$ 123,45',
+      );
+    });
+
+    it('should return the raw value for a reference value', () => {
+      expect(new Arrecadacao(CARNE_BILL).prettyAmount()).toBe('10.00');
+    });
+  });
+
+  describe('rendering', () => {
+    it('should return structured barcode data', () => {
+      const data = new Arrecadacao(ENERGY_BILL_CLEAN).barcodeData();
+      expect(data.stripes.length).toBe(4 + 22 * 10 + 3);
+      expect(data.stripes[0]!.color).toBe('#000000');
+    });
+
+    it('should render the barcode as an SVG string', () => {
+      const result = new Arrecadacao(ENERGY_BILL_CLEAN).toSVG();
+      expect(result).toContain('<svg');
+      expect(result).toContain('<rect');
+    });
+
+    it('should print the barcode digits with humanReadable', () => {
+      const bill = new Arrecadacao(ENERGY_BILL_CLEAN);
+      expect(bill.toSVG({ humanReadable: true })).toContain(
+        `>${bill.barcode()}</text>`,
+      );
+    });
+
+    it('should render the barcode as a PNG image', () => {
+      const png = new Arrecadacao(ENERGY_BILL_CLEAN).toPNG();
+      expect(Array.from(png.subarray(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+    });
+
+    it('should draw the barcode on a canvas context', () => {
+      let count = 0;
+      const context = {
+        fillStyle: '',
+        fillRect() {
+          count += 1;
+        },
+      };
+      new Arrecadacao(ENERGY_BILL_CLEAN).toCanvas(context);
+      // The background, then the start, digit pair and stop stripes
+      expect(count).toBe(1 + 4 + 22 * 10 + 3);
+    });
+  });
+});
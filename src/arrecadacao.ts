@@ -0,0 +1,412 @@
+/**
+ * Arrecadação (utility, tax and concessionária bill) Parser and Renderer
+ *
+ * @module Arrecadacao
+ */
+
+import type { BarcodeData, BarcodeOptions } from './svg.js';
+import type { BarcodePNGOptions } from './png.js';
+import type { BarcodeCanvasContext, BarcodeCanvasOptions } from './canvas.js';
+import {
+  barcodeData,
+  drawBarcodeCanvas,
+  renderBarcodePNG,
+  renderBarcodeSVG,
+} from './barcode.js';
+import { modulo, modulo10 } from './helpers.js';
+import { BRL_CURRENCY, formatAmount } from './currency.js';
+import { centsToDecimal } from './money.js';
+import { BoletoValidationError } from './boleto.js';
+import type { BoletoValidationErrorDetails } from './boleto.js';
+
+/**
+ * Expected length of a valid arrecadação number (linha digitável)
+ */
+const ARRECADACAO_NUMBER_LENGTH = 48;
+
+/**
+ * Length of a bank slip number, parsed by the Boleto class instead
+ */
+const BANK_SLIP_NUMBER_LENGTH = 47;
+
+/**
+ * Product identifier, the first digit of every arrecadação barcode
+ */
+const ARRECADACAO_PRODUCT_ID = '8';
+
+/**
+ * Position of the segment identifier in barcode (0-indexed)
+ */
+const BARCODE_SEGMENT_POSITION = 1;
+
+/**
+ * Position of the value identifier in barcode (0-indexed)
+ */
+const BARCODE_VALUE_ID_POSITION = 2;
+
+/**
+ * Position of checksum digit in barcode (0-indexed)
+ */
+const BARCODE_CHECKSUM_POSITION = 3;
+
+/**
+ * Length of each of the four blocks of the linha digitável, without its check digit
+ */
+const BLOCK_LENGTH = 11;
+
+/**
+ * Segment codes and their corresponding descriptions
+ * Source: FEBRABAN layout padrão de arrecadação/recebimento com código de barras
+ */
+const SEGMENTS: Record<string, string> = {
+  '1': 'Prefeituras',
+  '2': 'Saneamento',
+  '3': 'Energia Elétrica e Gás',
+  '4': 'Telecomunicações',
+  '5': 'Órgãos Governamentais',
+  '6': 'Carnês e Assemelhados',
+  '7': 'Multas de Trânsito',
+  '9': 'Uso Exclusivo do Banco',
+};
+
+/**
+ * Value identifiers and the check digit algorithm each one selects
+ *
+ * Identifiers 6 and 8 carry the effective amount (valor efetivo), while 7 and 9
+ * carry a reference value (valor de referência), such as a quantity of an index.
+ */
+const VALUE_IDENTIFIERS: Record<
+  string,
+  { modulo: 10 | 11; type: 'effective' | 'reference' }
+> = {
+  '6': { modulo: 10, type: 'effective' },
+  '7': { modulo: 10, type: 'reference' },
+  '8': { modulo: 11, type: 'effective' },
+  '9': { modulo: 11, type: 'reference' },
+};
+
+/**
+ * Calculates the modulo 11 check digit used by the arrecadação layout
+ *
+ * Unlike the bank slip variant, remainders of 0 and 1 map to the check digit 0
+ * and a remainder of 10 maps to the check digit 1.
+ *
+ * @param number - The digits to calculate checksum for
+ * @returns The modulo 11 checksum digit
+ */
+function modulo11Arrecadacao(number: string): number {
+  return parseInt(
+    modulo(number, {
+      modulus: 11,
+      weights: [2, 3, 4, 5, 6, 7, 8, 9],
+      replacements: { 10: '0', 11: '0' },
+    }),
+    10,
+  );
+}
+
+/**
+ * Rearranges a 48-digit arrecadação number into its 44-digit barcode
+ *
+ * @param bankSlipNumber - The 48-digit arrecadação number
+ * @returns The barcode number
+ */
+function toBarcode(bankSlipNumber: string): string {
+  return bankSlipNumber.replace(
+    /^(\d{11})\d{1}(\d{11})\d{1}(\d{11})\d{1}(\d{11})\d{1}$/,
+    '$1$2$3$4',
+  );
+}
+
+/**
+ * Finds the first problem of an arrecadação number
+ *
+ * @param bankSlipNumber - The arrecadação number (digits only)
+ * @returns The error describing the problem, or null if the number is valid
+ */
+function validationError(bankSlipNumber: string): BoletoValidationError | null {
+  const fail = (
+    message: string,
+    details: BoletoValidationErrorDetails,
+  ): BoletoValidationError =>
+    new BoletoValidationError(
+      `Invalid bank slip number: ${message}`,
+      bankSlipNumber,
+      details,
+    );
+
+  if (bankSlipNumber.length === BANK_SLIP_NUMBER_LENGTH) {
+    return fail('expected an arrecadação number, got a bank slip number', {
+      code: 'UNSUPPORTED_TYPE',
+    });
+  }
+  if (bankSlipNumber.length !== ARRECADACAO_NUMBER_LENGTH) {
+    return fail(
+      `expected ${ARRECADACAO_NUMBER_LENGTH} digits, got ${bankSlipNumber.length}`,
+      { code: 'INVALID_LENGTH' },
+    );
+  }
+  if (bankSlipNumber[0] !== ARRECADACAO_PRODUCT_ID) {
+    return fail(`expected product identifier ${ARRECADACAO_PRODUCT_ID}`, {
+      code: 'UNSUPPORTED_TYPE',
+    });
+  }
+
+  const identifier =
+    VALUE_IDENTIFIERS[bankSlipNumber[BARCODE_VALUE_ID_POSITION]!];
+  if (identifier === undefined) {
+    return fail('unknown value identifier', { code: 'UNSUPPORTED_TYPE' });
+  }
+
+  const checkDigit = identifier.modulo === 10 ? modulo10 : modulo11Arrecadacao;
+
+  for (let i = 0; i < 4; i += 1) {
+    const start = i * (BLOCK_LENGTH + 1);
+    const block = bankSlipNumber.substring(start, start + BLOCK_LENGTH);
+    const expected = checkDigit(block).toString();
+    const actual = bankSlipNumber[start + BLOCK_LENGTH]!;
+    if (expected !== actual) {
+      return fail(
+        `check digit of block ${i + 1} does not match: expected ${expected}, got ${actual}`,
+        { code: 'INVALID_FIELD_DV', field: i + 1, expected, actual },
+      );
+    }
+  }
+
+  const barcode = toBarcode(bankSlipNumber);
+  const expected = checkDigit(
+    barcode.substring(0, BARCODE_CHECKSUM_POSITION) +
+      barcode.substring(BARCODE_CHECKSUM_POSITION + 1),
+  ).toString();
+  const actual = barcode[BARCODE_CHECKSUM_POSITION]!;
+  if (expected !== actual) {
+    return fail(
+      `general check digit does not match: expected ${expected}, got ${actual}`,
+      { code: 'INVALID_GENERAL_DV', expected, actual },
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Arrecadação class for parsing and rendering 48-digit utility, tax and
+ * concessionária bills (the ones whose number starts with 8)
+ */
+export class Arrecadacao {
+  /**
+   * The raw arrecadação number (digits only)
+   */
+  readonly bankSlipNumber: string;
+
+  private _barcode: string | undefined;
+
+  /**
+   * Initializes the Arrecadacao class
+   *
+   * @param bankSlipNumber - The arrecadação number (can include non-digit characters which will be stripped)
+   * @throws BoletoValidationError if the arrecadação number is invalid
+   */
+  constructor(bankSlipNumber: string) {
+    this.bankSlipNumber = bankSlipNumber.replace(/[^\d]/g, '');
+
+    const error = validationError(this.bankSlipNumber);
+    if (error !== null) throw error;
+  }
+
+  /**
+   * Validates whether the arrecadação number is valid or not
+   *
+   * The number must be exactly 48 characters long and start with the product
+   * identifier 8. The value identifier (third digit) selects between the
+   * modulo-10 and modulo-11 algorithms, which are then used to verify the
+   * check digit of each of the four blocks and the general check digit of the
+   * barcode.
+   *
+   * @returns Whether the arrecadação number is valid or not
+   */
+  valid(): boolean {
+    return validationError(this.bankSlipNumber) === null;
+  }
+
+  /**
+   * Converts the printed arrecadação number into the barcode number
+   *
+   * The linha digitável is the barcode split into four blocks of 11 digits,
+   * each followed by its own check digit. This function drops those check
+   * digits and returns the original 44-digit barcode.
+   *
+   * @returns The barcode extracted from the arrecadação number
+   */
+  barcode(): string {
+    if (this._barcode === undefined) {
+      this._barcode = toBarcode(this.bankSlipNumber);
+    }
+    return this._barcode;
+  }
+
+  /**
+   * Returns the arrecadação's raw number
+   *
+   * @returns The raw arrecadação number
+   */
+  number(): string {
+    return this.bankSlipNumber;
+  }
+
+  /**
+   * Returns the arrecadação number with the usual, easy-to-read mask:
+   * 00000000000-0 00000000000-0 00000000000-0 00000000000-0
+   *
+   * @returns The formatted arrecadação number
+   */
+  prettyNumber(): string {
+    return this.bankSlipNumber.replace(
+      /^(\d{11})(\d{1})(\d{11})(\d{1})(\d{11})(\d{1})(\d{11})(\d{1})$/,
+      '$1-$2 $3-$4 $5-$6 $7-$8',
+    );
+  }
+
+  /**
+   * Returns the segment code of the arrecadação
+   *
+   * The segment, the second digit of the barcode, identifies the kind of
+   * collector (city hall, sanitation, energy, telecom, government, etc.).
+   *
+   * @returns The segment code
+   */
+  segment(): string {
+    return this.barcode()[BARCODE_SEGMENT_POSITION]!;
+  }
+
+  /**
+   * Returns the description of the arrecadação segment
+   *
+   * @returns The segment description
+   */
+  segmentName(): string {
+    return SEGMENTS[this.segment()] ?? 'Unknown';
+  }
+
+  /**
+   * Returns whether the amount field holds the effective amount or a
+   * reference value, as selected by the value identifier (third digit)
+   *
+   * @returns 'effective' for identifiers 6 and 8, 'reference' for 7 and 9
+   */
+  valueType(): 'effective' | 'reference' {
+    return VALUE_IDENTIFIERS[this.barcode()[BARCODE_VALUE_ID_POSITION]!]!.type;
+  }
+
+  /**
+   * Returns the identification of the company or agency collecting the bill
+   *
+   * Segment 6 identifies the company by the first 8 digits of its CNPJ, while
+   * every other segment uses a 4-digit FEBRABAN code.
+   *
+   * @returns The company identification
+   */
+  companyId(): string {
+    const length = this.segment() === '6' ? 8 : 4;
+    return this.barcode().substring(15, 15 + length);
+  }
+
+  /**
+   * Returns the verification digit of the barcode
+   *
+   * The barcode has its own checksum digit, which is the fourth digit of itself.
+   *
+   * @returns The checksum of the barcode
+   */
+  checksum(): string {
+    return this.barcode()[BARCODE_CHECKSUM_POSITION]!;
+  }
+
+  /**
+   * Returns the arrecadação's amount
+   *
+   * When {@link Arrecadacao.valueType} is 'reference', this is not a monetary
+   * amount but a quantity defined by the collecting company.
+   *
+   * @returns The arrecadação's raw amount as a string with 2 decimal places
+   */
+  amount(): string {
+    return centsToDecimal(BigInt(this.barcode().substring(4, 15)));
+  }
+
+  /**
+   * Returns the arrecadação's formatted amount
+   *
+   * @returns The formatted amount with the Brazilian Real symbol, or the raw
+   *          value when it is a reference value
+   */
+  prettyAmount(): string {
+    if (this.valueType() === 'reference') {
+      return this.amount();
+    }
+
+    return formatAmount(this.amount(), BRL_CURRENCY);
+  }
+
+  /**
+   * Returns structured barcode data for framework-native rendering
+   *
+   * @param options - The ratio, physical size and colors of the barcode
+   * @returns The barcode data with stripe positions, dimensions, and colors
+   *
+   * @see {@link barcodeData}
+   */
+  barcodeData(options: BarcodeOptions = {}): BarcodeData {
+    return barcodeData(this.barcode(), options);
+  }
+
+  /**
+   * Renders the arrecadação barcode as a child of the provided selector
+   *
+   * The barcode is drawn at the FEBRABAN print size by default: 0.25 mm
+   * narrow bars, a 1:3 ratio, 13 mm of height and quiet zones of 10 narrow
+   * bars. With `humanReadable`, the 44 barcode digits are printed under it.
+   *
+   * @param selectorOrOptions - The selector to the object where the SVG must be appended,
+   *                            or the options when returning the SVG as a string
+   * @param options - The ratio, physical size, colors, accessible name and
+   *                  human-readable text of the barcode
+   * @returns null if selector is provided (SVG is appended to DOM), otherwise returns SVG string
+   *
+   * @see {@link renderBarcodeSVG}
+   */
+  toSVG(
+    selectorOrOptions?: string | BarcodeOptions,
+    options: BarcodeOptions = {},
+  ): string | null {
+    return renderBarcodeSVG(this.barcode(), selectorOrOptions, options);
+  }
+
+  /**
+   * Renders the arrecadação bill's barcode as a grayscale PNG image
+   *
+   * @param options - The ratio, module width, height, quiet zone and bit depth
+   * @returns The PNG file bytes
+   *
+   * @see {@link renderBarcodePNG}
+   */
+  toPNG(options?: BarcodePNGOptions): Uint8Array {
+    return renderBarcodePNG(this.barcode(), options);
+  }
+
+  /**
+   * Draws the arrecadação bill's barcode on a 2D canvas context
+   *
+   * @param context - A `CanvasRenderingContext2D` or `OffscreenCanvasRenderingContext2D`
+   * @param options - The ratio, bar width, quiet zone, colors, position,
+   *                  scale and pixel snapping options
+   *
+   * @see {@link drawBarcodeCanvas}
+   */
+  toCanvas(
+    context: BarcodeCanvasContext,
+    options?: BarcodeCanvasOptions,
+  ): void {
+    drawBarcodeCanvas(context, this.barcode(), options);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for bank registry module
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  bankByCode,
+  bankByISPB,
+  findBank,
+  listBanks,
+  registerBank,
+  searchBanks,
+} from './banks.js';
+import type { Bank } from './banks.js';
+
+describe('bankByCode', () => {
+  it('should return the full record of a common bank', () => {
+    expect(bankByCode('237')).toEqual({
+      code: '237',
+      ispb: '60746948',
+      name: 'BCO BRADESCO S.A.',
+      shortName: 'Bradesco',
+      issuesBoletos: true,
+    });
+  });
+
+  it('should fall back to the legal name as short name', () => {
+    expect(bankByCode('790')).toEqual({
+      code: '790',
+      ispb: '54024532',
+      name: 'MAX IP',
+      shortName: 'MAX IP',
+    });
+  });
+
+  it('should have an ISPB for every bank', () => {
+    for (const bank of listBanks()) {
+      expect(bank.ispb).toMatch(/^\d{8}$/);
+    }
+  });
+
+  it('should return null for an unknown code', () => {
+    expect(bankByCode('999')).toBeNull();
+  });
+
+  it('should return frozen records', () => {
+    expect(Object.isFrozen(bankByCode('001'))).toBe(true);
+  });
+});
+
+describe('bankByISPB', () => {
+  it.each([
+    ['00000000', '001'],
+    ['00360305', '104'],
+    ['60701190', '341'],
+    ['53842122', '761'],
+  ])('should find the bank with ISPB %s', (ispb, code) => {
+    expect(bankByISPB(ispb)?.code).toBe(code);
+  });
+
+  it('should return null for an unknown ISPB', () => {
+    expect(bankByISPB('99999999')).toBeNull();
+  });
+});
+
+describe('searchBanks', () => {
+  it.each([
+    ['bradesco', '237'],
+    ['Itaú', '341'],
+    ['itau', '341'],
+    ['caixa economica', '104'],
+    ['banco do brasil', '001'],
+    ['santnder', '033'],
+    ['nubank', '260'],
+  ])('should rank the best match for "%s" first', (query, code) => {
+    expect(searchBanks(query)[0]?.code).toBe(code);
+  });
+
+  it('should expand the abbreviations of the legal names', () => {
+    const codes = searchBanks('banco estado se').map((bank) => bank.code);
+    expect(codes).toContain('047');
+  });
+
+  it('should require every word of the query to match', () => {
+    expect(searchBanks('bradesco xyzzy')).toEqual([]);
+  });
+
+  it('should limit the number of results', () => {
+    expect(searchBanks('banco', { limit: 3 })).toHaveLength(3);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchBanks('  ')).toEqual([]);
+  });
+});
+
+describe('findBank', () => {
+  it('should find a bank by code, ISPB or name', () => {
+    expect(findBank('341')?.shortName).toBe('Itaú');
+    expect(findBank('00360305')?.shortName).toBe('Caixa Econômica Federal');
+    expect(findBank('santander')?.code).toBe('033');
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(findBank('999')).toBeNull();
+    expect(findBank('xyzzy')).toBeNull();
+  });
+});
+
+describe('listBanks', () => {
+  it('should list the banks ordered by code', () => {
+    const codes = listBanks().map((bank) => bank.code);
+    expect(codes.length).toBeGreaterThan(400);
+    expect(codes).toEqual([...codes].sort());
+  });
+});
+
+describe('registerBank', () => {
+  const bradesco = bankByCode('237')!;
+  const added: Bank = {
+    code: '999',
+    ispb: '12345678',
+    name: 'BCO EXEMPLO S.A.',
+    shortName: 'Exemplo',
+    issuesBoletos: true,
+  };
+
+  afterEach(() => {
+    registerBank(bradesco);
+  });
+
+  it('should add a bank to every lookup', () => {
+    registerBank(added);
+    expect(bankByCode('999')).toEqual(added);
+    expect(bankByISPB('12345678')?.code).toBe('999');
+    expect(findBank('exemplo')?.code).toBe('999');
+  });
+
+  it('should override a registered bank', () => {
+    registerBank({ ...bradesco, shortName: 'Bradesco S.A.' });
+    expect(bankByCode('237')?.shortName).toBe('Bradesco S.A.');
+  });
+
+  it('should copy the record', () => {
+    const bank = { ...bradesco };
+    registerBank(bank);
+    bank.shortName = 'Changed';
+    expect(bankByCode('237')?.shortName).toBe('Bradesco');
+  });
+
+  it.each<[Bank, string]>([
+    [
+      { ...added, code: '99' },
+      'registerBank: expected a 3-digit code, got "99"',
+    ],
+    [
+      { ...added, ispb: '123' },
+      'registerBank: expected an 8-digit ISPB, got "123"',
+    ],
+    [
+      { ...added, shortName: ' ' },
+      'registerBank: expected non-empty names for bank 999',
+    ],
+  ])('should throw TypeError for invalid records', (bank, message) => {
+    expect(() => registerBank(bank)).toThrow(TypeError);
+    expect(() => registerBank(bank)).toThrow(message);
+  });
+});
@@ -0,0 +1,834 @@
+/**
+ * Registry of the Brazilian banks that may appear on bank slips
+ *
+ * @module Banks
+ */
+
+/**
+ * A bank or payment institution with a COMPE code
+ */
+export interface Bank {
+  /** COMPE code, the first three digits of the barcode */
+  code: string;
+  /** ISPB, the 8-digit identifier of the institution in the Brazilian Payment System, when known */
+  ispb?: string;
+  /** Legal name, as registered with the Central Bank (abbreviated) */
+  name: string;
+  /** Short or trade name, such as 'Bradesco' */
+  shortName: string;
+  /** Whether the institution issues bank slips, when known */
+  issuesBoletos?: boolean;
+}
+
+/**
+ * Options for searching banks by name
+ */
+export interface BankSearchOptions {
+  /** Maximum number of banks to return (default: all) */
+  limit?: number;
+}
+
+/**
+ * Bank codes and their ISPB, legal name and, when known, whether they issue
+ * bank slips
+ * Source: https://guilherme.stracini.com.br/BancosBrasileiros/data/bancos.json
+ */
+const BANK_DATA: Record<
+  string,
+  [ispb: string, name: string, issuesBoletos?: boolean]
+> = {
+  '001': ['00000000', 'BCO DO BRASIL S.A.', true],
+  '003': ['04902979', 'BCO DA AMAZONIA S.A.', true],
+  '004': ['07237373', 'BCO DO NORDESTE DO BRASIL S.A.', true],
+  '007': ['33657248', 'BNDES', true],
+  '010': ['81723108', 'CREDICOAMO', true],
+  '011': ['61809182', 'UBS (BRASIL) CORRETORA DE VALORES S.A.'],
+  '012': ['04866275', 'BANCO INBURSA', true],
+  '014': ['09274232', 'STATE STREET BR S.A. BCO COMERCIAL'],
+  '015': ['02819125', 'UBS BB CCTVM S.A.'],
+  '016': ['04715685', 'CCM DESP TRÂNS SC E RS', true],
+  '017': ['42272526', 'BNY MELLON BCO S.A.', false],
+  '018': ['57839805', 'BCO TRICURY S.A.', false],
+  '021': ['28127603', 'BCO BANESTES S.A.', true],
+  '023': ['53720128', 'CONTA SIMPLES SCD S.A.'],
+  '024': ['10866788', 'BCO BANDEPE S.A.'],
+  '025': ['03323840', 'BCO ALFA S.A.', true],
+  '029': ['33885724', 'BANCO ITAÚ CONSIGNADO S.A.'],
+  '033': ['90400888', 'BCO SANTANDER (BRASIL) S.A.', true],
+  '036': ['06271464', 'BCO BBI S.A.'],
+  '037': ['04913711', 'BCO DO EST. DO PA S.A.', true],
+  '040': ['03609817', 'BCO CARGILL S.A.'],
+  '041': ['92702067', 'BCO DO ESTADO DO RS S.A.', true],
+  '047': ['13009717', 'BCO DO EST. DE SE S.A.', true],
+  '060': ['04913129', 'CONFIDENCE CC S.A.'],
+  '062': ['03012230', 'HIPERCARD BM S.A.'],
+  '063': ['04184779', 'BANCO BRADESCARD', true],
+  '064': ['04332281', 'GOLDMAN SACHS DO BRASIL BM S.A'],
+  '065': ['48795256', 'BCO ANDBANK S.A.', false],
+  '066': ['02801938', 'BCO MORGAN STANLEY S.A.'],
+  '069': ['61033106', 'BCO CREFISA S.A.', true],
+  '070': ['00000208', 'BRB - BCO DE BRASILIA S.A.', true],
+  '074': ['03017677', 'BCO. J.SAFRA S.A.', true],
+  '075': ['03532415', 'BANCO ABN AMRO CLEARING S.A.'],
+  '076': ['07656500', 'BCO KDB BRASIL S.A.'],
+  '077': ['00416968', 'BANCO INTER', true],
+  '078': ['34111187', 'HAITONG BI DO BRASIL S.A.'],
+  '079': ['09516419', 'PICPAY BANK - BANCO MÚLTIPLO S.A'],
+  '080': ['73622748', 'BT CC LTDA.'],
+  '081': ['10264663', 'BANCOSEGURO S.A.', true],
+  '082': ['07679404', 'BANCO TOPÁZIO S.A.', true],
+  '083': ['10690848', 'BCO DA CHINA BRASIL S.A.', true],
+  '084': ['02398976', 'SISPRIME DO BRASIL - COOP', true],
+  '085': ['05463212', 'COOPCENTRAL AILOS', true],
+  '088': ['11476673', 'BANCO RANDON S.A.'],
+  '089': ['62109566', 'CREDISAN CC', true],
+  '091': ['01634601', 'CCCM UNICRED CENTRAL RS'],
+  '092': ['12865507', 'BRK S.A. CFI'],
+  '093': ['07945233', 'POLOCRED SCMEPP LTDA.', true],
+  '094': ['11758741', 'BANCO FINAXIS', true],
+  '095': ['11703662', 'BANCO TRAVELEX S.A.'],
+  '096': ['00997185', 'BCO B3 S.A.', true],
+  '097': ['04632856', 'CREDISIS - CENTRAL DE COOPERATIVAS DE CRÉDITO', true],
+  '098': ['78157146', 'CREDIALIANÇA CCR', true],
+  '099': ['03046391', 'UNIPRIME COOPCENTRAL LTDA.', true],
+  '100': ['00806535', 'PLANNER CV S.A.'],
+  '101': ['62287735', 'WARREN RENA DTVM'],
+  '102': ['02332886', 'XP INVESTIMENTOS CCTVM S/A'],
+  '104': ['00360305', 'CAIXA ECONOMICA FEDERAL', true],
+  '105': ['07652226', 'LECCA CFI S.A.'],
+  '107': ['15114366', 'BCO BOCOM BBM S.A.', true],
+  '108': ['01800019', 'PORTOCRED S.A. - CFI'],
+  '111': ['36113876', 'OLIVEIRA TRUST DTVM S.A.'],
+  '113': ['61723847', 'NEON CTVM S.A.'],
+  '114': [
+    '05790149',
+    'CENTRAL COOPERATIVA DE CRÉDITO NO ESTADO DO ESPÍRITO SANTO',
+  ],
+  '117': ['92856905', 'ADVANCED CC LTDA - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '119': ['13720915', 'BCO WESTERN UNION', false],
+  '120': ['33603457', 'BCO RODOBENS S.A.', true],
+  '121': ['10664513', 'BCO AGIBANK S.A.', true],
+  '122': ['33147315', 'BCO BRADESCO BERJ S.A.', true],
+  '124': ['15357060', 'BCO WOORI BANK DO BRASIL S.A.', true],
+  '125': ['45246410', 'BANCO GENIAL', true],
+  '126': ['13220493', 'BR PARTNERS BI'],
+  '127': ['09512542', 'CODEPE CVC S.A.'],
+  '128': ['19307785', 'BRAZA BANK S.A. BCO DE CÂMBIO', true],
+  '129': ['18520834', 'UBS BB BI S.A.'],
+  '130': ['09313766', 'CARUANA SCFI', true],
+  '131': ['61747085', 'TULLETT PREBON BRASIL CVC LTDA'],
+  '132': ['17453575', 'ICBC DO BRASIL BM S.A.', true],
+  '133': ['10398952', 'CRESOL CONFEDERAÇÃO', true],
+  '134': ['33862244', 'BGC LIQUIDEZ DTVM LTDA'],
+  '136': ['00315557', 'UNICRED DO BRASIL', true],
+  '138': ['10853017', 'GET MONEY CC LTDA.'],
+  '139': ['55230916', 'INTESA SANPAOLO BRASIL S.A. BM'],
+  '140': ['62169875', 'NU INVESTIMENTOS S.A. - CTVM'],
+  '141': ['09526594', 'MASTER BI S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '142': ['16944141', 'BROKER BRASIL CC LTDA.'],
+  '143': ['02992317', 'INTEX BANK BCO DE CÂMBIO S.A.'],
+  '144': ['13059145', 'EBURY BCO DE CÂMBIO S.A.'],
+  '145': ['50579044', 'LEVYCAM CCV LTDA'],
+  '146': ['24074692', 'GUITTA CC LTDA'],
+  '149': ['15581638', 'FACTA S.A. CFI'],
+  '157': ['09105360', 'ICAP DO BRASIL CTVM LTDA.'],
+  '159': ['05442029', 'CASA CREDITO S.A. SCM', true],
+  '163': ['23522214', 'COMMERZBANK BRASIL S.A. - BCO MÚLTIPLO', true],
+  '173': ['13486793', 'APEX GROUP DTVM'],
+  '174': ['43180355', 'PEFISA S.A. - C.F.I.', true],
+  '177': ['65913436', 'SAFRA CTVM'],
+  '180': ['02685483', 'CM CAPITAL MARKETS CCTVM LTDA'],
+  '183': ['09210106', 'SOCRED SA - SCMEPP'],
+  '184': ['17298092', 'BCO ITAÚ BBA S.A.'],
+  '188': ['33775974', 'ATIVA S.A. INVESTIMENTOS CCTVM'],
+  '189': ['07512441', 'HS FINANCEIRA'],
+  '190': ['03973814', 'SERVICOOP', true],
+  '191': ['04257795', 'NOVA FUTURA CTVM LTDA.'],
+  '194': ['20155248', 'UNIDA DTVM LTDA'],
+  '195': ['07799277', 'VALOR S/A SCFI'],
+  '196': ['32648370', 'FAIR SOCIEDADE CC'],
+  '197': ['16501555', 'STONE IP S.A.', true],
+  '208': ['30306294', 'BANCO BTG PACTUAL S.A.', true],
+  '212': ['92894922', 'BANCO ORIGINAL', true],
+  '213': ['54403563', 'BCO ARBI S.A.', true],
+  '217': ['91884981', 'BANCO JOHN DEERE S.A.', false],
+  '218': ['71027866', 'BCO BS2 S.A.', true],
+  '222': ['75647891', 'BCO CRÉDIT AGRICOLE BR S.A.', false],
+  '224': ['58616418', 'BCO FIBRA S.A.', true],
+  '233': ['62421979', 'BANCO BMG SOLUÇÕES FINANCEIRAS S.A.'],
+  '237': ['60746948', 'BCO BRADESCO S.A.', true],
+  '241': ['31597552', 'BCO CLASSICO S.A.'],
+  '243': ['33923798', 'BANCO MASTER - EM LIQUIDAÇÃO EXTRAJUDICIAL', true],
+  '246': ['28195667', 'BCO ABC BRASIL S.A.', true],
+  '249': ['61182408', 'BANCO INVESTCRED UNIBANCO S.A.'],
+  '250': ['50585090', 'BANCO BMG CONSIGNADO S.A.'],
+  '253': ['52937216', 'BEXS CC S.A.'],
+  '254': ['14388334', 'PARANA BCO S.A.', true],
+  '259': ['08609934', 'MONEYCORP BCO DE CÂMBIO S.A.'],
+  '260': ['18236120', 'NU PAGAMENTOS - IP', true],
+  '265': ['33644196', 'BCO FATOR S.A.', true],
+  '266': ['33132044', 'BCO CEDULA S.A.', true],
+  '268': ['14511781', 'BARI CIA HIPOTECÁRIA'],
+  '269': ['53518684', 'BCO HSBC S.A.', true],
+  '270': ['61444949', 'SAGITUR CC - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '271': ['27842177', 'BPY CCTVM S.A.'],
+  '272': ['00250699', 'AGK CC S.A.'],
+  '273': ['08253539', 'COOP SULCREDI AMPLEA'],
+  '274': ['11581339', 'BMP SCMEPP LTDA', true],
+  '276': ['11970623', 'BCO SENFF S.A.', true],
+  '278': ['27652684', 'GENIAL INVESTIMENTOS CVM S.A.'],
+  '279': ['26563270', 'COOP DE PRIMAVERA DO LESTE', false],
+  '280': [
+    '23862762',
+    'WILL FINANCEIRA S.A.CFI - EM LIQUIDAÇÃO EXTRAJUDICIAL',
+    true,
+  ],
+  '281': ['76461557', 'CCR COOPAVEL', true],
+  '283': ['89960090', 'RB INVESTIMENTOS DTVM LTDA.'],
+  '285': ['71677850', 'FRENTE SCC S.A - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '286': ['07853842', 'UNIPRIME OURO - COOP DE OURO'],
+  '288': ['62237649', 'CAROL DTVM LTDA.'],
+  '289': ['94968518', 'EFX CC LTDA.'],
+  '290': ['08561701', 'PAGSEGURO INTERNET IP S.A.'],
+  '292': ['28650236', 'GALAPAGOS DTVM S.A.'],
+  '293': ['71590442', 'LASTRO RDV DTVM LTDA'],
+  '296': ['04062902', 'OZ CORRETORA DE CÂMBIO S.A.'],
+  '298': ['17772370', 'VIPS CC S.A.'],
+  '299': ['04814563', 'BCO AFINZ S.A. - BM', true],
+  '300': ['33042151', 'BCO LA NACION ARGENTINA', true],
+  '301': ['13370835', 'DOCK IP S.A.', true],
+  '305': ['40353377', 'FOURTRADE COR. DE CAMBIO LTDA'],
+  '306': ['40303299', 'PORTOPAR DTVM LTDA'],
+  '307': ['03751794', 'TERRA INVESTIMENTOS DTVM'],
+  '309': ['14190547', 'CAMBIONET CC LTDA'],
+  '310': ['22610500', 'VORTX DTVM LTDA.', true],
+  '311': ['76641497', 'DOURADA CORRETORA'],
+  '312': ['07693858', 'HSCM SCMEPP LTDA.'],
+  '313': ['16927221', 'AMAZÔNIA CC LTDA.'],
+  '315': ['03502968', 'PI DTVM S.A.'],
+  '318': ['61186680', 'BCO BMG S.A.', true],
+  '319': ['11495073', 'OM DTVM LTDA'],
+  '320': ['07450604', 'BOC BRASIL', true],
+  '321': ['18188384', 'CREFAZ SCMEPP SA'],
+  '322': ['01073966', 'CCR DE ABELARDO LUZ', true],
+  '323': ['10573521', 'MERCADO PAGO IP LTDA.', true],
+  '324': ['21332862', 'CARTOS SCD S.A.', true],
+  '325': ['13293225', 'ÓRAMA DTVM S.A.'],
+  '326': ['03311443', 'MEUTUDO SCFI', true],
+  '328': ['05841967', 'CECM FABRIC CALÇADOS SAPIRANGA'],
+  '329': ['32402502', 'QI SCD S.A.', true],
+  '330': ['00556603', 'BANCO BARI S.A.', true],
+  '331': ['13673855', 'OSLO CAPITAL DTVM SA'],
+  '332': [
+    '13140088',
+    'ACESSO SOLUÇÕES DE PAGAMENTO S.A. - INSTITUIÇÃO DE PAGAMENTO',
+    true,
+  ],
+  '334': ['15124464', 'BANCO BESA S.A.'],
+  '335': ['27098060', 'BANCO DIGIO'],
+  '336': ['31872495', 'BCO C6 S.A.', true],
+  '340': ['09554480', 'SUPERDIGITAL I.P. S.A.'],
+  '341': ['60701190', 'ITAÚ UNIBANCO S.A.', true],
+  '342': ['32997490', 'CREDITAS SCD'],
+  '343': ['24537861', 'FFA SCMEPP LTDA.'],
+  '348': ['33264668', 'BCO XP S.A.'],
+  '349': ['27214112', 'AL5 S.A. SCFI'],
+  '350': ['01330387', 'COOPERATIVA DE CRÉDITO POPULAR DO BRASIL'],
+  '352': ['29162769', 'SANTANDER CTVM S.A.'],
+  '354': ['52904364', 'NECTON INVESTIMENTOS S.A CVM'],
+  '355': ['34335592', 'ÓTIMO SCD S.A.'],
+  '358': ['09464032', 'MIDWAY S.A. - SCFI'],
+  '359': ['05351887', 'ZEMA CFI S/A', true],
+  '360': ['02276653', 'TRINUS CAPITAL DTVM'],
+  '362': ['01027058', 'CIELO IP S.A.'],
+  '363': ['62285390', 'QI CTVM S.A.'],
+  '364': ['09089356', 'EFÍ S.A. - IP', true],
+  '365': ['68757681', 'SIMPAUL'],
+  '366': ['61533584', 'BCO SOCIETE GENERALE BRASIL', false],
+  '367': ['34711571', 'VITREO DTVM S.A.'],
+  '368': ['08357240', 'BCO CSF S.A.', true],
+  '370': ['61088183', 'BCO MIZUHO S.A.'],
+  '371': ['92875780', 'WARREN CVMC LTDA'],
+  '373': ['35977097', 'UP.P SEP S.A.'],
+  '374': ['27351731', 'REALIZE SCFI S.A.'],
+  '376': ['33172537', 'BCO J.P. MORGAN S.A.', true],
+  '377': ['17826860', 'BMS SCD S.A.'],
+  '378': ['01852137', 'BCO BRASILEIRO DE CRÉDITO S.A.'],
+  '379': ['01658426', 'COOP COOPERFORTE LTDA.'],
+  '380': ['22896431', 'PICPAY', true],
+  '381': ['60814191', 'BCO MERCEDES-BENZ S.A.'],
+  '382': ['04307598', 'FIDUCIA SCMEPP LTDA'],
+  '383': ['21018182', 'EBANX IP LTDA.', true],
+  '384': ['11165756', 'GLOBAL SCM LTDA'],
+  '385': ['03844699', 'CECM DOS TRAB.PORT. DA G.VITOR'],
+  '386': ['30680829', 'NU FINANCEIRA S.A. CFI'],
+  '387': ['03215790', 'BCO TOYOTA DO BRASIL S.A.', true],
+  '389': ['17184037', 'BCO MERCANTIL DO BRASIL S.A.', true],
+  '390': ['59274605', 'BCO GM S.A.'],
+  '391': ['08240446', 'CCR DE IBIAM'],
+  '393': ['59109165', 'BCO VOLKSWAGEN S.A', true],
+  '394': ['07207996', 'BCO BRADESCO FINANC. S.A.', true],
+  '395': ['08673569', 'F D GOLD DTVM LTDA'],
+  '396': ['13884775', 'MAGALUPAY'],
+  '397': ['34088029', 'LISTO SCD S.A.'],
+  '398': ['31749596', 'IDEAL CTVM S.A.'],
+  '399': ['01701201', 'KIRTON BANK'],
+  '400': ['05491616', 'COOP CREDITAG - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '401': ['15111975', 'IUGU IP S.A.', true],
+  '402': ['36947229', 'COBUCCIO S.A. SCFI'],
+  '403': ['37880206', 'CORA SCFI', true],
+  '404': ['37241230', 'SUMUP SCFI S.A'],
+  '406': ['37715993', 'ACCREDITO SCD S.A.', true],
+  '407': [
+    '00329598',
+    'SEFER INVESTIMENTOS DTVM LTDA - EM LIQUIDAÇÃO EXTRAJUDICIAL',
+  ],
+  '408': ['36586946', 'BONUSPAGO SCD S.A.'],
+  '410': ['05684234', 'PLANNER SOCIEDADE DE CRÉDITO DIRETO'],
+  '411': ['05192316', 'VIA CERTA FINANCIADORA S.A. - CFI', true],
+  '412': ['15173776', 'SOCIAL BANK S/A', true],
+  '413': ['01858774', 'BCO BV S.A.', true],
+  '414': ['37526080', 'LEND SCD S.A.'],
+  '415': ['17157777', 'BCO NACIONAL'],
+  '416': ['19324634', 'LAMARA SCD S.A.'],
+  '418': ['37414009', 'ZIPDIN SCD S.A.'],
+  '419': ['38129006', 'NUMBRS SCD S.A.'],
+  '421': ['39343350', 'CC LAR CREDI', true],
+  '422': ['58160789', 'BCO SAFRA S.A.', true],
+  '423': ['00460065', 'COLUNA S.A. DTVM'],
+  '425': ['03881423', 'SOCINAL S.A. CFI', true],
+  '426': ['11285104', 'NEON FINANCEIRA - SCFI S.A.'],
+  '427': ['27302181', 'CRED.UFES'],
+  '428': ['39664698', 'CREDSYSTEM SCD S.A.', true],
+  '429': ['05676026', 'CREDIARE CFI S.A.', true],
+  '430': ['00204963', 'CCR SEARA'],
+  '433': ['44077014', 'BR-CAPITAL DTVM S.A.'],
+  '435': ['38224857', 'DELFINANCE SCD S.A.', true],
+  '438': ['67030395', 'TRUSTEE DTVM LTDA. - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '439': ['16695922', 'ID CTVM', true],
+  '440': ['82096447', 'COOP CREDI&GENTE'],
+  '442': ['87963450', 'MAGNETIS - DTVM'],
+  '443': ['39416705', 'OCTA SCD S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '444': ['40654622', 'TRINUS SCD S.A.'],
+  '445': ['35551187', 'PLANTAE CFI'],
+  '447': ['12392983', 'MIRAE ASSET (BRASIL) CCTVM LTDA.'],
+  '448': ['39669186', 'HEMERA DTVM LTDA.'],
+  '449': ['37555231', 'DM', true],
+  '450': ['13203354', 'FITS IP', true],
+  '451': ['40475846', 'J17 - SCD S/A'],
+  '452': ['39676772', 'CREDIFIT SCD S.A.'],
+  '454': ['41592532', 'MÉRITO DTVM LTDA.'],
+  '455': ['38429045', 'VIS DTVM LTDA'],
+  '456': ['60498557', 'BCO MUFG BRASIL S.A.', true],
+  '457': ['39587424', 'UY3 SCD S/A', true],
+  '458': ['07253654', 'HEDGE INVESTMENTS DTVM LTDA.'],
+  '459': ['04546162', 'CCM SERV. PÚBLICOS SP'],
+  '460': ['42047025', 'UNAVANTI SCD S/A', true],
+  '461': ['19540550', 'ASAAS IP S.A.', true],
+  '462': ['39908427', 'STARK SCD S.A.'],
+  '463': ['40434681', 'AZUMI DTVM', true],
+  '464': ['60518222', 'BCO SUMITOMO MITSUI BRASIL S.A.', true],
+  '465': ['40083667', 'CAPITAL CONSIG SCD S.A.'],
+  '467': ['33886862', 'MASTER S/A CCTVM - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '468': ['04862600', 'PORTOSEG S.A. CFI'],
+  '469': ['07138049', 'PICPAY INVEST'],
+  '470': ['18394228', 'CDC SCD S.A.'],
+  '471': ['04831810', 'COOP CRESERV CREDISIS'],
+  '473': ['33466988', 'BCO CAIXA GERAL BRASIL S.A.'],
+  '475': ['10371492', 'BCO YAMAHA MOTOR S.A.', true],
+  '476': ['45860531', 'IDEA MAKER IP LTDA'],
+  '477': ['33042953', 'CITIBANK N.A.'],
+  '478': ['11760553', 'GAZINCRED S.A. SCFI', true],
+  '479': ['60394079', 'BCO ITAUBANK S.A.'],
+  '481': ['43599047', 'SUPERLÓGICA SCD S.A.', true],
+  '482': ['42259084', 'ARTTA SCD'],
+  '484': ['36864992', 'APEX DTVM'],
+  '487': ['62331228', 'DEUTSCHE BANK S.A.BCO ALEMAO', true],
+  '488': ['46518205', 'JPMORGAN CHASE BANK'],
+  '492': ['49336860', 'ING BANK N.V.'],
+  '495': ['44189447', 'BCO LA PROVINCIA B AIRES BCE'],
+  '496': ['45283173', 'BBVA BRASIL BI S.A.'],
+  '505': ['32062580', 'BCO UBS BRASIL', false],
+  '506': ['42066258', 'RJI'],
+  '507': ['37229413', 'SCFI EFÍ S.A.'],
+  '508': ['61384004', 'AVENUE SECURITIES BI S.A.'],
+  '509': ['13935893', 'CELCOIN IP S.A.', true],
+  '510': ['39738065', 'FFCRED SCD S.A.'],
+  '511': ['44683140', 'MAGNUM SCD', true],
+  '512': ['36266751', 'FINVEST DTVM'],
+  '513': ['44728700', 'ATF SCD S.A.'],
+  '514': ['73302408', 'EXIM SCC'],
+  '516': ['36583700', 'QISTA S.A. CFI'],
+  '517': ['03816413', 'PAGUEVELOZ IP LTDA.'],
+  '518': ['37679449', 'MERCADO CRÉDITO SCFI S.A.'],
+  '519': ['40768766', 'LIONS TRUST DTVM'],
+  '520': ['44705774', 'SOMAPAY SCD S.A.'],
+  '521': ['44019481', 'PEAK SEP S.A.'],
+  '522': ['47593544', 'RED SCD S.A.'],
+  '523': ['44292580', 'HR DIGITAL SCD', true],
+  '524': ['45854066', 'WNT CAPITAL DTVM'],
+  '525': ['34265629', 'INTERCAM CC LTDA'],
+  '526': ['46026562', 'MONETARIE SCD'],
+  '527': ['44478623', 'ATICCA SCD S.A.'],
+  '528': ['34829992', 'CBSF DTVM -EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '529': ['17079937', 'PINBANK IP'],
+  '530': ['47873449', 'SER FINANCE SCD S.A.', true],
+  '531': ['34337707', 'BMP SCD S.A.'],
+  '532': ['45745537', 'FUTURO SCD'],
+  '533': ['22575466', 'SRM BANK'],
+  '534': ['00714671', 'EWALLY IP S.A.'],
+  '535': ['39519944', 'OPEA SCD'],
+  '536': ['20855875', 'NEON PAGAMENTOS S.A. IP'],
+  '537': ['45756448', 'SELECT CREDIT SCMEPP LTDA.'],
+  '538': ['20251847', 'SUDACRED SCD S.A.'],
+  '539': ['00122327', 'SANTINVEST S.A. - CFI'],
+  '540': ['04849745', 'HBI SCD'],
+  '541': ['00954288', 'FDO GARANTIDOR CRÉDITOS'],
+  '542': ['18189547', 'CLOUDWALK IP LTDA'],
+  '543': ['92825397', 'COOPCRECE'],
+  '544': ['38593706', 'MULTICRED SCD S.A.'],
+  '545': ['17352220', 'SENSO CCVM S.A.'],
+  '546': ['30980539', 'OKTO IP'],
+  '547': ['45331622', 'BNK DIGITAL SCD S.A.'],
+  '548': ['06249129', 'RPW S.A. SCFI'],
+  '549': ['15489568', 'INTRA DTVM'],
+  '550': ['32074986', 'BEETELLER IP LTDA.'],
+  '551': ['48967968', 'VERT DTVM LTDA.'],
+  '552': ['32192325', 'UZZIPAY IP S.A.'],
+  '553': ['48707451', 'PERCAPITAL SCD S.A.'],
+  '554': ['28811341', 'BCO STONEX S.A.'],
+  '555': ['02682287', 'PAN FINAN'],
+  '556': ['40333582', 'SAYGO CÂMBIO'],
+  '557': ['30944783', 'PAGPRIME IP'],
+  '558': ['46955383', 'QI DTVM LTDA.'],
+  '559': ['49288113', 'KANASTRA CFI'],
+  '560': ['21995256', 'MAG IP LTDA.'],
+  '561': ['20757199', 'PAY4FUN IP S.A.'],
+  '562': ['18684408', 'AZIMUT BRASIL DTVM LTDA'],
+  '563': ['40276692', 'PROTEGE CASH'],
+  '564': ['63019146', 'ANKOR CFI S.A.'],
+  '565': ['74014747', 'ÁGORA CTVM S.A.'],
+  '566': ['23114447', 'FLAGSHIP IP LTDA'],
+  '567': ['33040601', 'MERCANTIL FINANCEIRA'],
+  '568': ['49933388', 'BRCONDOS SCD S.A.'],
+  '569': ['12473687', 'CONTA PRONTA IP'],
+  '571': ['50489148', 'MONTE BRAVO CTVM S.A.'],
+  '572': ['51414521', 'ALL IN CRED SCD S.A.'],
+  '573': ['18282093', 'OXY CH'],
+  '574': ['48756121', 'A55 SCD S.A.'],
+  '575': ['48584954', 'DGBK CREDIT S.A. - SOCIEDADE DE CRÉDITO DIRETO.'],
+  '576': ['11351086', 'MERCADO BITCOIN IP LTDA'],
+  '577': ['10663610', 'AF DESENVOLVE SP S.A.'],
+  '578': ['01235921', 'SICRES'],
+  '579': ['49555647', 'QUADRA SCD'],
+  '580': ['87437687', 'CCCPOUPINV SUL E SUDESTE - CENTRAL SUL/SUDESTE'],
+  '581': ['70119680', 'CENTRAL NORDESTE'],
+  '582': ['33737818', 'CCC POUP INV DE MS, GO, DF E TO'],
+  '583': ['33667205', 'CCC POUP INV DO CENTRO NORTE DO BRASIL'],
+  '584': ['80230774', 'CCC POUP E INV DOS ESTADOS DO PR, SP E RJ'],
+  '585': ['50946592', 'SETHI SCD SA'],
+  '586': ['35810871', 'Z1 IP LTDA.'],
+  '587': ['37678915', 'FIDD DTVM LTDA.'],
+  '588': ['20308187', 'AVANCARD PROVER IP LTDA'],
+  '589': ['51212088', 'G5 SCD SA'],
+  '590': ['40473435', 'REPASSES FINANCEIROS E SOLUCOES TECNOLOGICAS IP S.A.'],
+  '591': ['02671743', 'BANVOX DTVM - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '592': ['45548763', 'MAPS IP LTDA.'],
+  '593': ['27084098', 'TRANSFEERA IP S.A.'],
+  '594': ['48703388', 'ASA SCFI S.A.'],
+  '595': ['19468242', 'IFOOD PAGO IP'],
+  '596': ['39696395', 'CACTVS IP S.A.'],
+  '597': ['34747388', 'ISSUER IP LTDA.'],
+  '598': ['50626276', 'KONECT SCD S/A'],
+  '599': ['36321990', 'AGORACRED S/A SCFI'],
+  '600': ['59118133', 'BCO LUSO BRASILEIRO S.A.', true],
+  '604': ['31895683', 'BCO INDUSTRIAL DO BRASIL S.A.', true],
+  '610': ['78626983', 'BCO VR S.A.', true],
+  '611': ['61820817', 'BCO PAULISTA S.A.', true],
+  '612': ['31880826', 'BCO GUANABARA S.A.', false],
+  '613': ['60850229', 'OMNI BANCO S.A.', true],
+  '614': ['52440987', 'SANTS SCD S.A.'],
+  '615': ['37470405', 'SMART SOLUTIONS GROUP IP LTDA'],
+  '619': ['49931906', 'TRIO IP LTDA.'],
+  '620': ['51342763', 'REVOLUT SCD S.A.'],
+  '623': ['59285411', 'BANCO PAN', true],
+  '626': ['61348538', 'BCO C6 CONSIG'],
+  '630': [
+    '58497702',
+    'BANCO LETSBANK S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL',
+    true,
+  ],
+  '632': ['52586293', 'Z-ON SCD S.A.'],
+  '633': ['68900810', 'BCO RENDIMENTO S.A.', true],
+  '634': ['17351180', 'BCO TRIANGULO S.A.', true],
+  '636': ['40112555', 'GIRO - SCD S/A'],
+  '637': ['60889128', 'BCO SOFISA S.A.', true],
+  '643': ['62144175', 'BCO PINE S.A.', true],
+  '644': ['54647259', '321 SCD S.A.'],
+  '646': ['91669747', 'DM SCFI'],
+  '651': ['25104230', 'PAGARE IP S.A.'],
+  '652': ['60872504', 'ITAÚ UNIBANCO HOLDING S.A.'],
+  '653': ['61024352', 'BM PLENO S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL', true],
+  '654': ['92874270', 'BCO DIGIMAIS S.A.', true],
+  '655': ['59588111', 'BCO VOTORANTIM S.A.', true],
+  '659': ['35210410', 'ONEKEY PAYMENTS IP S.A.'],
+  '660': ['34471744', 'PAGME IP LTDA'],
+  '661': ['55428859', 'FREEX SCC S.A.'],
+  '662': ['32708748', 'WE PAY OUT IP LTDA.'],
+  '663': ['44782130', 'ACTUAL DTVM S.A.'],
+  '664': ['11414839', 'EAGLE IP LTDA.'],
+  '665': ['20018183', 'STARK BANK S.A. - IP'],
+  '667': ['48552108', 'LIQUIDO IP LTDA'],
+  '668': ['48632754', 'CELCOIN SCD'],
+  '669': ['47133056', 'TRANSFERO IP LTDA.'],
+  '670': ['11491029', 'BSN'],
+  '671': ['26264220', 'ZERO IP'],
+  '672': ['53505601', 'STONE CFI S.A.'],
+  '673': ['08482873', 'CCR DO AGRESTE ALAGOANO'],
+  '674': ['27970567', 'HINOVA PAY IP S.A.'],
+  '675': ['30723871', 'CASAS BAHIA PAY IP LTDA.'],
+  '676': ['35479592', 'DUFRIO CFI S.A.'],
+  '677': ['33630661', 'GOWD IP LTDA.'],
+  '678': ['45716916', 'FIDEM SCD S/A'],
+  '679': ['36690516', 'PAY IP S.A.'],
+  '680': ['55823094', 'DELTA GLOBAL SCD S.A.'],
+  '681': ['50871921', 'MT IP S.A.'],
+  '682': ['46505612', 'MONERY IP S.A.'],
+  '683': ['30507541', 'BRASIL CASH IP S.A.'],
+  '684': ['56392166', 'HARMOS S.A. - SCFI'],
+  '685': ['26615279', 'TYCOON TECHNOLOGY IIP S.A'],
+  '686': ['12481100', 'BIZ IP LTDA.'],
+  '687': ['35340796', 'INCO SEP S.A.'],
+  '688': ['43978697', 'KIKAI SCD S.A.'],
+  '689': ['51118718', 'NVIO BRASIL SCD S.A.'],
+  '690': ['16814330', 'BK IP S.A.'],
+  '691': ['49686505', 'WASU IP LTDA.'],
+  '692': ['56198117', 'SQUID SCD S.A.'],
+  '693': ['32820711', 'EFEX IP'],
+  '694': ['54811417', 'WOOVI IP LTDA.'],
+  '695': ['35523352', 'BEES IP LTDA.'],
+  '696': ['50032584', 'LOAN BRASIL SCD S.A.'],
+  '697': ['45056494', 'JM CORRETORA DE CÂMBIO'],
+  '698': ['58367961', 'BIT SCD S.A.'],
+  '699': ['59396084', 'BFC SCD S.A.'],
+  '700': ['53822116', 'MW IP LTDA.'],
+  '701': ['51118615', 'INTEGRAÇÃO DE CRÉDITO E COBRANÇA SCD'],
+  '703': ['10440482', 'GETNET IP'],
+  '704': ['44663846', 'FESTOR IP LTDA.'],
+  '707': ['62232889', 'BCO DAYCOVAL S.A', true],
+  '708': ['33588252', 'BCO INDUSCRED DE INVESTIM. S/A'],
+  '712': ['78632767', 'OURIBANK S.A.'],
+  '714': ['00411939', 'FINAMAX S.A. CFI'],
+  '719': ['33884941', 'BANCO MASTER MÚLTIPLO - EM LIQUIDAÇÃO EXTRAJUDICIAL'],
+  '720': ['80271455', 'BCO RNX S.A.'],
+  '739': ['00558456', 'BCO CETELEM S.A.', true],
+  '741': ['00517645', 'BCO RIBEIRAO PRETO S.A.', true],
+  '743': ['00795423', 'BANCO SEMEAR', true],
+  '745': ['33479023', 'BCO CITIBANK S.A.', true],
+  '746': ['30723886', 'BCO MODAL S.A.', true],
+  '747': ['01023570', 'BCO RABOBANK INTL BRASIL S.A.'],
+  '748': ['01181521', 'BANCO COOPERATIVO SICREDI', true],
+  '751': ['29030467', 'SCOTIABANK BRASIL'],
+  '752': ['01522368', 'BCO BNP PARIBAS BRASIL S A', true],
+  '753': ['74828799', 'NOVO BCO CONTINENTAL S.A. - BM', true],
+  '754': ['76543115', 'BANCO SISTEMA'],
+  '755': ['62073200', 'BOFA MERRILL LYNCH BM S.A.', true],
+  '756': ['02038232', 'BANCO SICOOB S.A.', true],
+  '757': ['02318507', 'BCO KEB HANA DO BRASIL S.A.', true],
+  '759': ['42963742', 'BANSUR JM SCD S.A.'],
+  '760': ['34139916', 'EMCASH SERV FINANC SEP S.A.'],
+  '761': ['53842122', 'URBANO S.A. SCFI'],
+  '762': ['44064068', 'OPPENS SEP S.A.'],
+  '763': ['56106523', 'VUE IP S.A.'],
+  '764': ['04306351', 'INDEPENDÊNCIA CC'],
+  '765': ['37753531', 'PAGSMILE IP LTDA.'],
+  '766': ['52833288', 'LB PAY IP LTDA'],
+  '767': ['62264924', 'QORE'],
+  '768': ['20443996', 'BECKER FINANCEIRA SA - CFI'],
+  '769': ['24313102', '99PAY IP S.A.'],
+  '770': ['38320462', 'V3 IP S.A.'],
+  '771': ['57824223', 'WX IP LTDA.'],
+  '772': ['20833992', 'CC MECUNP'],
+  '773': ['53908413', 'KIWIFY IP'],
+  '774': ['33959738', 'MOVA SEP S.A.'],
+  '775': ['47381104', 'CONTAAZUL IP LTDA.'],
+  '778': ['58674454', 'PB SCD'],
+  '780': ['12102128', 'SAFETYPAY BRASIL IP LTDA'],
+  '781': ['58006471', 'BARU DTVM LTDA.'],
+  '783': ['31680151', 'SWAP IP S.A.'],
+  '785': ['53058329', 'LA FINTECA IP LTDA'],
+  '786': ['52076716', 'AWX BRASIL IP LTDA.'],
+  '787': ['10789035', 'ATTRUS IP S/A'],
+  '788': ['35713491', 'PROTOTYPE IP S.A.'],
+  '789': ['57654096', 'APUSDIGITAL IP LTDA.'],
+  '790': ['54024532', 'MAX IP'],
+  '791': ['62448932', 'MULTIPLIKE FINANCEIRA S.A. SCFI'],
+  '792': ['44921281', 'NIXFIN SCD'],
+  '793': ['61021673', 'MAGALUPAY SCFI S.A.'],
+  '794': ['44323831', 'ATUAL CC LTDA'],
+  '795': ['52067630', 'BANCO TRATON BRASIL S.A.'],
+  '804': ['32343119', 'MÊNTORE IP S.A.'],
+};
+
+/**
+ * Trade names of the most common banks
+ */
+const TRADE_NAMES: Record<string, string> = {
+  '001': 'Banco do Brasil',
+  '003': 'Banco da Amazônia',
+  '004': 'Banco do Nordeste',
+  '021': 'Banestes',
+  '033': 'Santander',
+  '037': 'Banpará',
+  '041': 'Banrisul',
+  '047': 'Banese',
+  '070': 'BRB',
+  '077': 'Banco Inter',
+  '085': 'Ailos',
+  '104': 'Caixa Econômica Federal',
+  '136': 'Unicred',
+  '197': 'Stone',
+  '208': 'BTG Pactual',
+  '212': 'Banco Original',
+  '237': 'Bradesco',
+  '246': 'Banco ABC Brasil',
+  '260': 'Nubank',
+  '290': 'PagBank',
+  '323': 'Mercado Pago',
+  '336': 'C6 Bank',
+  '341': 'Itaú',
+  '389': 'Banco Mercantil do Brasil',
+  '422': 'Banco Safra',
+  '623': 'Banco Pan',
+  '633': 'Banco Rendimento',
+  '655': 'Banco BV',
+  '707': 'Banco Daycoval',
+  '745': 'Citibank',
+  '748': 'Sicredi',
+  '756': 'Sicoob',
+};
+
+/**
+ * Abbreviations of the legal names, expanded when searching by name
+ */
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  bco: 'banco',
+  est: 'estado',
+};
+
+/**
+ * The registered banks, by COMPE code
+ */
+const BANKS = new Map<string, Bank>(
+  Object.entries(BANK_DATA).map(([code, [ispb, name, issuesBoletos]]) => [
+    code,
+    Object.freeze({
+      code,
+      ispb,
+      name,
+      shortName: TRADE_NAMES[code] ?? name,
+      ...(issuesBoletos === undefined ? {} : { issuesBoletos }),
+    }),
+  ]),
+);
+
+/**
+ * Splits a name into lowercase words without accents, expanding the
+ * abbreviations of the legal names
+ *
+ * @param name - The name
+ * @returns The words of the name
+ */
+function words(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => NAME_ABBREVIATIONS[word] ?? word);
+}
+
+/**
+ * Calculates the Levenshtein distance between two words
+ *
+ * @param a - The first word
+ * @param b - The second word
+ * @returns The number of insertions, deletions and substitutions that turn one word into the other
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Scores how well a bank matches a search, the lower the better
+ *
+ * Every word of the query must match a word of the short or legal name:
+ * exactly, as its beginning or, for words of four letters or more, with a
+ * single typo.
+ *
+ * @param bank - The bank
+ * @param query - The words of the query
+ * @returns The score, or `null` if a word of the query matches no word of the bank
+ */
+function matchScore(bank: Bank, query: string[]): number | null {
+  const shortName = words(bank.shortName);
+  if (shortName.join(' ') === query.join(' ')) return 0;
+
+  const candidates = [...shortName, ...words(bank.name)];
+  let score = 1;
+  for (const word of query) {
+    let best = Infinity;
+    for (const candidate of candidates) {
+      if (candidate === word) best = 0;
+      else if (candidate.startsWith(word)) best = Math.min(best, 1);
+      else if (word.length >= 4 && editDistance(word, candidate) <= 1) {
+        best = Math.min(best, 2);
+      }
+    }
+    if (best === Infinity) return null;
+    score += best;
+  }
+  return score;
+}
+
+/**
+ * Finds a bank by its COMPE code
+ *
+ * @param code - The 3-digit COMPE code, such as '237'
+ * @returns The bank, or `null` if no bank is registered with the code
+ *
+ * @example
+ * bankByCode('237')?.shortName; // 'Bradesco'
+ */
+export function bankByCode(code: string): Bank | null {
+  return BANKS.get(code) ?? null;
+}
+
+/**
+ * Finds a bank by its ISPB
+ *
+ * @param ispb - The 8-digit ISPB, such as '60746948'
+ * @returns The bank, or `null` if no bank is registered with the ISPB
+ *
+ * @example
+ * bankByISPB('60746948')?.code; // '237'
+ */
+export function bankByISPB(ispb: string): Bank | null {
+  for (const bank of BANKS.values()) {
+    if (bank.ispb === ispb) return bank;
+  }
+  return null;
+}
+
+/**
+ * Searches banks by name, tolerating accents, abbreviations and typos
+ *
+ * The query is matched word by word against the short and legal names.
+ * Banks whose short name is the query come first, then the closest matches;
+ * ties are broken in favour of the banks known to issue bank slips, then by
+ * code.
+ *
+ * @param query - The name or part of it, such as 'itau' or 'caixa economica'
+ * @param options - The search options
+ * @returns The matching banks, best match first
+ *
+ * @example
+ * searchBanks('bradesco')[0]?.code; // '237'
+ */
+export function searchBanks(
+  query: string,
+  options: BankSearchOptions = {},
+): Bank[] {
+  const queryWords = words(query);
+  if (queryWords.length === 0) return [];
+
+  const matches: [Bank, number][] = [];
+  for (const bank of BANKS.values()) {
+    const score = matchScore(bank, queryWords);
+    if (score !== null) matches.push([bank, score]);
+  }
+  matches.sort(
+    ([a, scoreA], [b, scoreB]) =>
+      scoreA - scoreB ||
+      Number(b.issuesBoletos ?? false) - Number(a.issuesBoletos ?? false) ||
+      a.code.localeCompare(b.code),
+  );
+  return matches.slice(0, options.limit).map(([bank]) => bank);
+}
+
+/**
+ * Finds a bank by COMPE code, ISPB or name
+ *
+ * Three digits are read as a COMPE code, eight digits as an ISPB and
+ * anything else as a name, for which the best match of
+ * {@link searchBanks} is returned.
+ *
+ * @param query - The COMPE code, ISPB or name
+ * @returns The bank, or `null` if none matches
+ *
+ * @example
+ * findBank('341')?.shortName; // 'Itaú'
+ * findBank('00360305')?.shortName; // 'Caixa Econômica Federal'
+ * findBank('santander')?.code; // '033'
+ */
+export function findBank(query: string): Bank | null {
+  const trimmed = query.trim();
+  if (/^\d{3}$/.test(trimmed)) return bankByCode(trimmed);
+  if (/^\d{8}$/.test(trimmed)) return bankByISPB(trimmed);
+  return searchBanks(trimmed, { limit: 1 })[0] ?? null;
+}
+
+/**
+ * Lists the registered banks
+ *
+ * @returns The banks, ordered by COMPE code
+ */
+export function listBanks(): Bank[] {
+  return [...BANKS.values()].sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Registers a bank, or replaces the bank registered with the same code
+ *
+ * Use it to add institutions missing from the registry, or to change the
+ * names shown by {@link Boleto.bank}. To change a single field, spread the
+ * registered bank, as in the first example.
+ *
+ * @param bank - The bank
+ * @throws {TypeError} If the code is not 3 digits, the ISPB not 8 digits or a name is empty
+ *
+ * @example
+ * registerBank({ ...bankByCode('237')!, shortName: 'Bradesco S.A.' });
+ * registerBank({ code: '999', name: 'BCO EXEMPLO S.A.', shortName: 'Exemplo' });
+ */
+export function registerBank(bank: Bank): void {
+  if (!/^\d{3}$/.test(bank.code)) {
+    throw new TypeError(
+      `registerBank: expected a 3-digit code, got "${bank.code}"`,
+    );
+  }
+  if (bank.ispb !== undefined && !/^\d{8}$/.test(bank.ispb)) {
+    throw new TypeError(
+      `registerBank: expected an 8-digit ISPB, got "${bank.ispb}"`,
+    );
+  }
+  if (!bank.name.trim() || !bank.shortName.trim()) {
+    throw new TypeError(
+      `registerBank: expected non-empty names for bank ${bank.code}`,
+    );
+  }
+  BANKS.set(bank.code, Object.freeze({ ...bank }));
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for shared barcode rendering module
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  barcodeData,
+  drawBarcodeCanvas,
+  renderBarcodePNG,
+  renderBarcodeSVG,
+} from './barcode.js';
+import { SVG } from './svg.js';
+import { encode } from './itf.js';
+
+const BARCODE = '23791846600000123453381286000000000000000038';
+
+describe('barcodeData', () => {
+  it('should encode the barcode and return its stripes', () => {
+    expect(barcodeData(BARCODE)).toEqual(
+      new SVG(encode(BARCODE), {}).toBarcodeData(),
+    );
+  });
+
+  it('should pass the ratio to the encoder', () => {
+    const data = barcodeData(BARCODE, { ratio: 2 });
+    expect(Math.max(...data.stripes.map((s) => s.width))).toBe(0.5);
+  });
+});
+
+describe('renderBarcodeSVG', () => {
+  it('should accept the options in place of the selector', () => {
+    expect(renderBarcodeSVG(BARCODE, { compact: true })).toBe(
+      renderBarcodeSVG(BARCODE, undefined, { compact: true }),
+    );
+  });
+
+  it('should print the barcode digits when human-readable', () => {
+    const svg = renderBarcodeSVG(BARCODE, { humanReadable: true })!;
+    expect(svg).toContain(`>${BARCODE}</text>`);
+  });
+
+  it('should append the SVG to the selected element', () => {
+    document.body.innerHTML = '<div id="barcode"></div>';
+    expect(renderBarcodeSVG(BARCODE, '#barcode')).toBeNull();
+    expect(document.querySelector('#barcode svg')).not.toBeNull();
+  });
+});
+
+describe('renderBarcodePNG', () => {
+  it('should render a PNG image', () => {
+    const png = renderBarcodePNG(BARCODE);
+    expect([...png.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+  });
+});
+
+describe('drawBarcodeCanvas', () => {
+  it('should fill the stripes on the context', () => {
+    const fills: string[] = [];
+    drawBarcodeCanvas(
+      {
+        fillStyle: '',
+        fillRect() {
+          fills.push(String(this.fillStyle));
+        },
+      },
+      BARCODE,
+    );
+    expect(fills).toContain('#000000');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Barcode rendering shared by bank slips and arrecadação bills
+ *
+ * @module Barcode
+ */
+
+import { SVG } from './svg.js';
+import type { BarcodeData, BarcodeOptions } from './svg.js';
+import { encode } from './itf.js';
+import { renderPNG } from './png.js';
+import type { BarcodePNGOptions } from './png.js';
+import { drawBarcode } from './canvas.js';
+import type { BarcodeCanvasContext, BarcodeCanvasOptions } from './canvas.js';
+
+/**
+ * Default width of a narrow bar on a canvas, in context units
+ */
+const DEFAULT_CANVAS_NARROW_WIDTH = 4;
+
+/**
+ * Height of the bars on a canvas, in narrow bars, as the 13 mm of 0.25 mm
+ * bars of the FEBRABAN print size
+ */
+const CANVAS_BARCODE_HEIGHT = 52;
+
+/**
+ * Returns structured barcode data for framework-native rendering
+ *
+ * @param barcode - The 44-digit barcode
+ * @param options - The ratio, physical size and colors of the barcode
+ * @returns The barcode data with stripe positions, dimensions, and colors
+ *
+ * @see {@link SVG.toBarcodeData}
+ */
+export function barcodeData(
+  barcode: string,
+  options: BarcodeOptions = {},
+): BarcodeData {
+  return new SVG(encode(barcode, options), options).toBarcodeData();
+}
+
+/**
+ * Renders a barcode as an SVG string, or as a child of the provided selector
+ *
+ * The barcode is drawn at the FEBRABAN print size by default: 0.25 mm
+ * narrow bars, a 1:3 ratio, 13 mm of height and quiet zones of 10 narrow
+ * bars. With `humanReadable`, the 44 barcode digits are printed under it.
+ *
+ * @param barcode - The 44-digit barcode
+ * @param selectorOrOptions - The selector to the object where the SVG must be appended,
+ *                            or the options when returning the SVG as a string
+ * @param options - The ratio, physical size, colors, accessible name and
+ *                  human-readable text of the barcode
+ * @returns null if selector is provided (SVG is appended to DOM), otherwise returns SVG string
+ *
+ * @see {@link SVG.render}
+ */
+export function renderBarcodeSVG(
+  barcode: string,
+  selectorOrOptions?: string | BarcodeOptions,
+  options: BarcodeOptions = {},
+): string | null {
+  const [selector, barcodeOptions] =
+    typeof selectorOrOptions === 'string'
+      ? [selectorOrOptions, options]
+      : [undefined, selectorOrOptions ?? options];
+  return new SVG(encode(barcode, barcodeOptions), {
+    ...barcodeOptions,
+    text: barcodeOptions.humanReadable ? barcode : barcodeOptions.text,
+  }).render(selector);
+}
+
+/**
+ * Renders a barcode as a grayscale PNG image
+ *
+ * @param barcode - The 44-digit barcode
+ * @param options - The ratio, module width, height, quiet zone and bit depth
+ * @returns The PNG file bytes
+ *
+ * @see {@link renderPNG}
+ */
+export function renderBarcodePNG(
+  barcode: string,
+  options: BarcodePNGOptions = {},
+): Uint8Array {
+  return renderPNG(barcodeData(barcode, { ratio: options.ratio }), options);
+}
+
+/**
+ * Draws a barcode on a 2D canvas context
+ *
+ * The barcode is laid out in context units, with 4-unit narrow bars by
+ * default, so that every bar is a whole number of device pixels at the usual
+ * scales instead of a fraction of a millimetre.
+ *
+ * @param context - A `CanvasRenderingContext2D` or `OffscreenCanvasRenderingContext2D`
+ * @param barcode - The 44-digit barcode
+ * @param options - The ratio, bar width, quiet zone, colors, position, scale
+ *                  and pixel snapping options
+ *
+ * @see {@link drawBarcode}
+ */
+export function drawBarcodeCanvas(
+  context: BarcodeCanvasContext,
+  barcode: string,
+  options: BarcodeCanvasOptions = {},
+): void {
+  const { narrowWidth = DEFAULT_CANVAS_NARROW_WIDTH } = options;
+  const data = barcodeData(barcode, {
+    ratio: options.ratio,
+    narrowWidth,
+    unit: 'px',
+    height: CANVAS_BARCODE_HEIGHT * narrowWidth,
+    quietZone: options.quietZone,
+    foreground: options.foreground,
+    background: options.background,
+  });
+  drawBarcode(context, data, options);
+}
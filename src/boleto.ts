@@ -4,36 +4,182 @@
  * @module Boleto
  */
 
-import { SVG } from './svg.js';
-import type { BarcodeData } from './svg.js';
-import { encode } from './itf.js';
-import { modulo11 } from './helpers.js';
+import type { BarcodeData, BarcodeOptions } from './svg.js';
+import type { BarcodePNGOptions } from './png.js';
+import type { BarcodeCanvasContext, BarcodeCanvasOptions } from './canvas.js';
+import {
+  barcodeData,
+  drawBarcodeCanvas,
+  renderBarcodePNG,
+  renderBarcodeSVG,
+} from './barcode.js';
+import { renderPDF } from './pdf.js';
+import type { FichaData } from './ficha.js';
+import { modulo10, modulo11 } from './helpers.js';
+import { bankByCode } from './banks.js';
+import type { Bank } from './banks.js';
+import { currencyByCode, formatAmount } from './currency.js';
+import type { Currency } from './currency.js';
+import { Money, centsToDecimal } from './money.js';
+import {
+  MILLISECONDS_PER_DAY,
+  calendarDateIn,
+  daysBetween,
+  formatISODate,
+  localCalendarDate,
+  nextBusinessDay,
+  toTemporalPlainDate,
+} from './calendar.js';
+import type {
+  CalendarDate,
+  CalendarOptions,
+  TemporalPlainDate,
+} from './calendar.js';
+import { decodeCampoLivre } from './campo-livre.js';
+import type { CampoLivre, CampoLivreOptions } from './campo-livre.js';
+import { validateNossoNumero } from './nosso-numero.js';
 
 /**
- * Currency information returned by the currency method
+ * Machine-readable code of a bank slip number validation issue
+ *
+ * - `INVALID_CHARACTERS`: the input has characters other than digits,
+ *   whitespace, dots and hyphens
+ * - `INVALID_LENGTH`: the input does not have the expected number of digits
+ * - `INVALID_FIELD_DV`: the check digit of one of the fields (or blocks, for
+ *   arrecadação bills) does not match
+ * - `INVALID_GENERAL_DV`: the general check digit of the barcode does not match
+ * - `UNSUPPORTED_TYPE`: the number is of another kind of bank slip, such as a
+ *   48-digit arrecadação bill given to {@link Boleto}
+ */
+export type BoletoValidationIssueCode =
+  | 'INVALID_CHARACTERS'
+  | 'INVALID_LENGTH'
+  | 'INVALID_FIELD_DV'
+  | 'INVALID_GENERAL_DV'
+  | 'UNSUPPORTED_TYPE';
+
+/**
+ * Machine-readable code of a {@link BoletoValidationError}
+ *
+ * `INVALID_BANK_SLIP_NUMBER` is used when the cause was not specified.
  */
-export interface Currency {
-  /** ISO 4217 currency code */
-  code: string;
-  /** Currency symbol */
-  symbol: string;
-  /** Decimal separator character */
-  decimal: string;
+export type BoletoValidationErrorCode =
+  | BoletoValidationIssueCode
+  | 'INVALID_BANK_SLIP_NUMBER';
+
+/**
+ * Details of a {@link BoletoValidationError}
+ */
+export interface BoletoValidationErrorDetails {
+  /** Machine-readable code of the failure (default: 'INVALID_BANK_SLIP_NUMBER') */
+  code?: BoletoValidationErrorCode;
+  /** 1-based index of the field whose check digit does not match */
+  field?: number;
+  /** The check digit the number should have */
+  expected?: string;
+  /** The check digit the number has */
+  actual?: string;
+  /** The underlying error, if any */
+  cause?: unknown;
 }
 
 /**
  * Custom error class for boleto validation errors
  *
- * Provides a type-safe way to handle boleto-specific validation failures
+ * Provides a type-safe way to handle boleto-specific validation failures.
+ * The `code` property tells the failures apart without matching messages.
  */
 export class BoletoValidationError extends Error {
   /** The invalid bank slip number that caused the error */
   readonly bankSlipNumber: string;
 
-  constructor(message: string, bankSlipNumber: string) {
-    super(message);
+  /** Machine-readable code of the failure */
+  readonly code: BoletoValidationErrorCode;
+
+  /** 1-based index of the field whose check digit does not match, if any */
+  readonly field: number | undefined;
+
+  /** The check digit the number should have, if any */
+  readonly expected: string | undefined;
+
+  /** The check digit the number has, if any */
+  readonly actual: string | undefined;
+
+  constructor(
+    message: string,
+    bankSlipNumber: string,
+    details: BoletoValidationErrorDetails = {},
+  ) {
+    super(
+      message,
+      details.cause === undefined ? undefined : { cause: details.cause },
+    );
     this.name = 'BoletoValidationError';
     this.bankSlipNumber = bankSlipNumber;
+    this.code = details.code ?? 'INVALID_BANK_SLIP_NUMBER';
+    this.field = details.field;
+    this.expected = details.expected;
+    this.actual = details.actual;
+  }
+}
+
+/**
+ * A problem found while validating a bank slip number
+ */
+export interface BoletoValidationIssue {
+  /** Machine-readable code of the issue */
+  code: BoletoValidationIssueCode;
+  /** Offset of the first character involved in the input, as given */
+  start: number;
+  /** Offset right after the last character involved in the input, as given */
+  end: number;
+  /** Human-readable description of the issue */
+  message: string;
+  /** 1-based index of the field whose check digit does not match */
+  field?: number;
+  /** The check digit the number should have */
+  expected?: string;
+  /** The check digit the number has */
+  actual?: string;
+}
+
+/**
+ * Result of {@link Boleto.safeParse}, discriminated by its `success` property
+ */
+export type BoletoParseResult =
+  | { success: true; boleto: Boleto }
+  | { success: false; issues: BoletoValidationIssue[] };
+
+/**
+ * The parts a bank slip number is built from
+ */
+export interface BoletoParts {
+  /** 3-digit code of the issuing bank (e.g. '237') */
+  bankCode: string;
+  /** Currency code digit (default: '9', Brazilian Real) */
+  currencyCode?: string;
+  /** The date when the bank slip is due; the local calendar day of a `Date` is used */
+  dueDate: Date | CalendarDate;
+  /** The nominal amount in cents (at most 10 digits) */
+  amountInCents: number | bigint;
+  /** The 25-digit campo livre, laid out by the issuing bank */
+  campoLivre: string;
+}
+
+/**
+ * Custom error class for bank slip issuing errors
+ *
+ * Thrown by {@link Boleto.fromParts} when one of the parts cannot be encoded
+ * into a bank slip number.
+ */
+export class BoletoBuildError extends Error {
+  /** The part that could not be encoded */
+  readonly field: keyof BoletoParts;
+
+  constructor(message: string, field: keyof BoletoParts) {
+    super(message);
+    this.name = 'BoletoBuildError';
+    this.field = field;
   }
 }
 
@@ -43,15 +189,74 @@ export class BoletoValidationError extends Error {
 const BOLETO_EPOCH = 876236400000;
 
 /**
- * Number of milliseconds in a day
+ * Lowest due date factor issued after the February 2025 rollover
+ *
+ * The factor reached 9999 on 2025-02-21 and restarted at 1000 on 2025-02-22,
+ * so every cycle after the first one spans the factors 1000 to 9999.
+ */
+const MIN_DUE_DATE_FACTOR = 1000;
+
+/**
+ * Highest due date factor, the largest 4-digit number
  */
-const MILLISECONDS_PER_DAY = 86400000;
+const MAX_DUE_DATE_FACTOR = 9999;
+
+/**
+ * Number of days in a due date factor cycle (factors 1000 to 9999)
+ */
+const DUE_DATE_FACTOR_CYCLE = 9000;
+
+/**
+ * Number of days before the reference date covered by the decoding window
+ *
+ * A factor is decoded to the only date of its cycles that falls within
+ * [reference - 3000 days, reference + 6000 days), matching the FEBRABAN
+ * tolerance of 3000 days for overdue bank slips.
+ */
+const DUE_DATE_WINDOW_PAST_DAYS = 3000;
 
 /**
  * Expected length of a valid bank slip number
  */
 const BANK_SLIP_NUMBER_LENGTH = 47;
 
+/**
+ * Length of an arrecadação number, parsed by the Arrecadacao class instead
+ */
+const ARRECADACAO_NUMBER_LENGTH = 48;
+
+/**
+ * Product identifier, the first digit of every arrecadação number
+ */
+const ARRECADACAO_PRODUCT_ID = '8';
+
+/**
+ * Expected length of a valid barcode
+ */
+const BARCODE_LENGTH = 44;
+
+/**
+ * Largest amount in cents that fits the 10-digit amount field
+ */
+const MAX_AMOUNT_IN_CENTS = 9999999999n;
+
+/**
+ * Positions of the modulo-10 check digits of the first three fields of the
+ * bank slip number (0-indexed). Each field starts right after the previous
+ * field's check digit.
+ */
+const FIELD_CHECKSUM_POSITIONS = [9, 20, 31] as const;
+
+/**
+ * Position of the general checksum digit in the bank slip number (0-indexed)
+ */
+const BANK_SLIP_CHECKSUM_POSITION = 32;
+
+/**
+ * Characters allowed in a bank slip number besides its digits
+ */
+const FORMATTING_CHARACTERS = /[\s.-]/;
+
 /**
  * Position of checksum digit in barcode (0-indexed)
  */
@@ -63,504 +268,167 @@ const BARCODE_CHECKSUM_POSITION = 4;
 const BARCODE_CURRENCY_POSITION = 3;
 
 /**
- * Brazilian Real currency configuration
+ * Returns the number of calendar days between the boleto epoch and a date
+ *
+ * @param date - The calendar date to measure
+ * @returns The number of days since the 7th of October, 1997
+ */
+function daysSinceEpoch(date: CalendarDate): number {
+  return daysBetween({ year: 1997, month: 10, day: 7 }, date);
+}
+
+/**
+ * Finds the fields of a bank slip number whose check digit is wrong
+ *
+ * The first three fields of the linha digitável are each followed by a
+ * modulo-10 check digit, which catches typos that the barcode's general check
+ * digit may miss.
+ *
+ * @param bankSlipNumber - The 47-digit bank slip number
+ * @returns The 1-based indexes of the invalid fields, empty if all match
+ */
+function invalidFields(bankSlipNumber: string): number[] {
+  const fields: number[] = [];
+  let start = 0;
+
+  for (let i = 0; i < FIELD_CHECKSUM_POSITIONS.length; i += 1) {
+    const position = FIELD_CHECKSUM_POSITIONS[i]!;
+    const field = bankSlipNumber.substring(start, position);
+    if (modulo10(field).toString() !== bankSlipNumber[position]) {
+      fields.push(i + 1);
+    }
+    start = position + 1;
+  }
+
+  return fields;
+}
+
+/**
+ * Calculates the modulo-11 checksum digit a 44-digit barcode should have
+ *
+ * @param barcode - The barcode number
+ * @returns The checksum digit computed from the rest of the barcode
  */
-const BRL_CURRENCY = {
-  code: 'BRL',
-  symbol: 'R$',
-  decimal: ',',
-} as const satisfies Currency;
+function barcodeChecksum(barcode: string): string {
+  return modulo11(
+    barcode.substring(0, BARCODE_CHECKSUM_POSITION) +
+      barcode.substring(BARCODE_CHECKSUM_POSITION + 1),
+  ).toString();
+}
 
 /**
- * Bank codes and their corresponding names
- * Source: https://guilherme.stracini.com.br/BancosBrasileiros/data/bancos.json
+ * Verifies the modulo-11 checksum digit of a 44-digit barcode
+ *
+ * @param barcode - The barcode number
+ * @returns Whether the checksum digit matches the rest of the barcode
  */
-const BANK_CODES: Record<string, string> = {
-  '001': 'BCO DO BRASIL S.A.',
-  '003': 'BCO DA AMAZONIA S.A.',
-  '004': 'BCO DO NORDESTE DO BRASIL S.A.',
-  '007': 'BNDES',
-  '010': 'CREDICOAMO',
-  '011': 'UBS (BRASIL) CORRETORA DE VALORES S.A.',
-  '012': 'BANCO INBURSA',
-  '014': 'STATE STREET BR S.A. BCO COMERCIAL',
-  '015': 'UBS BB CCTVM S.A.',
-  '016': 'CCM DESP TRÂNS SC E RS',
-  '017': 'BNY MELLON BCO S.A.',
-  '018': 'BCO TRICURY S.A.',
-  '021': 'BCO BANESTES S.A.',
-  '024': 'BCO BANDEPE S.A.',
-  '025': 'BCO ALFA S.A.',
-  '029': 'BANCO ITAÚ CONSIGNADO S.A.',
-  '033': 'BCO SANTANDER (BRASIL) S.A.',
-  '036': 'BCO BBI S.A.',
-  '037': 'BCO DO EST. DO PA S.A.',
-  '040': 'BCO CARGILL S.A.',
-  '041': 'BCO DO ESTADO DO RS S.A.',
-  '047': 'BCO DO EST. DE SE S.A.',
-  '060': 'CONFIDENCE CC S.A.',
-  '062': 'HIPERCARD BM S.A.',
-  '063': 'BANCO BRADESCARD',
-  '064': 'GOLDMAN SACHS DO BRASIL BM S.A',
-  '065': 'BCO ANDBANK S.A.',
-  '066': 'BCO MORGAN STANLEY S.A.',
-  '069': 'BCO CREFISA S.A.',
-  '070': 'BRB - BCO DE BRASILIA S.A.',
-  '074': 'BCO. J.SAFRA S.A.',
-  '075': 'BANCO ABN AMRO CLEARING S.A.',
-  '076': 'BCO KDB BRASIL S.A.',
-  '077': 'BANCO INTER',
-  '078': 'HAITONG BI DO BRASIL S.A.',
-  '079': 'PICPAY BANK - BANCO MÚLTIPLO S.A',
-  '080': 'BT CC LTDA.',
-  '081': 'BANCOSEGURO S.A.',
-  '082': 'BANCO TOPÁZIO S.A.',
-  '083': 'BCO DA CHINA BRASIL S.A.',
-  '084': 'SISPRIME DO BRASIL - COOP',
-  '085': 'COOPCENTRAL AILOS',
-  '088': 'BANCO RANDON S.A.',
-  '089': 'CREDISAN CC',
-  '091': 'CCCM UNICRED CENTRAL RS',
-  '092': 'BRK S.A. CFI',
-  '093': 'POLOCRED SCMEPP LTDA.',
-  '094': 'BANCO FINAXIS',
-  '095': 'BANCO TRAVELEX S.A.',
-  '096': 'BCO B3 S.A.',
-  '097': 'CREDISIS - CENTRAL DE COOPERATIVAS DE CRÉDITO LTDA.',
-  '098': 'CREDIALIANÇA CCR',
-  '099': 'UNIPRIME COOPCENTRAL LTDA.',
-  '100': 'PLANNER CV S.A.',
-  '101': 'WARREN RENA DTVM',
-  '102': 'XP INVESTIMENTOS CCTVM S/A',
-  '104': 'CAIXA ECONOMICA FEDERAL',
-  '105': 'LECCA CFI S.A.',
-  '107': 'BCO BOCOM BBM S.A.',
-  '108': 'PORTOCRED S.A. - CFI',
-  '111': 'OLIVEIRA TRUST DTVM S.A.',
-  '113': 'NEON CTVM S.A.',
-  '114': 'CENTRAL COOPERATIVA DE CRÉDITO NO ESTADO DO ESPÍRITO SANTO',
-  '117': 'ADVANCED CC LTDA',
-  '119': 'BCO WESTERN UNION',
-  '120': 'BCO RODOBENS S.A.',
-  '121': 'BCO AGIBANK S.A.',
-  '122': 'BCO BRADESCO BERJ S.A.',
-  '124': 'BCO WOORI BANK DO BRASIL S.A.',
-  '125': 'BANCO GENIAL',
-  '126': 'BR PARTNERS BI',
-  '127': 'CODEPE CVC S.A.',
-  '128': 'BRAZA BANK S.A. BCO DE CÂMBIO',
-  '129': 'UBS BB BI S.A.',
-  '130': 'CARUANA SCFI',
-  '131': 'TULLETT PREBON BRASIL CVC LTDA',
-  '132': 'ICBC DO BRASIL BM S.A.',
-  '133': 'CRESOL CONFEDERAÇÃO',
-  '134': 'BGC LIQUIDEZ DTVM LTDA',
-  '136': 'UNICRED DO BRASIL',
-  '138': 'GET MONEY CC LTDA',
-  '139': 'INTESA SANPAOLO BRASIL S.A. BM',
-  '140': 'NU INVESTIMENTOS S.A. - CTVM',
-  '141': 'MASTER BI S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL',
-  '142': 'BROKER BRASIL CC LTDA.',
-  '143': 'INTEX BANK BCO DE CÂMBIO S.A.',
-  '144': 'EBURY BCO DE CÂMBIO S.A.',
-  '145': 'LEVYCAM CCV LTDA',
-  '146': 'GUITTA CC LTDA',
-  '149': 'FACTA S.A. CFI',
-  '157': 'ICAP DO BRASIL CTVM LTDA.',
-  '159': 'CASA CREDITO S.A. SCM',
-  '163': 'COMMERZBANK BRASIL S.A. - BCO MÚLTIPLO',
-  '173': 'BRL TRUST DTVM SA',
-  '174': 'PEFISA S.A. - C.F.I.',
-  '177': 'SAFRA CTVM',
-  '180': 'CM CAPITAL MARKETS CCTVM LTDA',
-  '183': 'SOCRED SA - SCMEPP',
-  '184': 'BCO ITAÚ BBA S.A.',
-  '188': 'ATIVA S.A. INVESTIMENTOS CCTVM',
-  '189': 'HS FINANCEIRA',
-  '190': 'SERVICOOP',
-  '191': 'NOVA FUTURA CTVM LTDA.',
-  '194': 'UNIDA DTVM LTDA',
-  '195': 'VALOR S/A SCFI',
-  '196': 'FAIR CC S.A.',
-  '197': 'STONE IP S.A.',
-  '208': 'BANCO BTG PACTUAL S.A.',
-  '212': 'BANCO ORIGINAL',
-  '213': 'BCO ARBI S.A.',
-  '217': 'BANCO JOHN DEERE S.A.',
-  '218': 'BCO BS2 S.A.',
-  '222': 'BCO CRÉDIT AGRICOLE BR S.A.',
-  '224': 'BCO FIBRA S.A.',
-  '233': 'BANCO BMG SOLUÇÕES FINANCEIRAS S.A.',
-  '237': 'BCO BRADESCO S.A.',
-  '241': 'BCO CLASSICO S.A.',
-  '243': 'BANCO MASTER - EM LIQUIDAÇÃO EXTRAJUDICIAL',
-  '246': 'BCO ABC BRASIL S.A.',
-  '249': 'BANCO INVESTCRED UNIBANCO S.A.',
-  '250': 'BANCO BMG CONSIGNADO S.A.',
-  '253': 'BEXS CC S.A.',
-  '254': 'PARANA BCO S.A.',
-  '259': 'MONEYCORP BCO DE CÂMBIO S.A.',
-  '260': 'NU PAGAMENTOS - IP',
-  '265': 'BCO FATOR S.A.',
-  '266': 'BCO CEDULA S.A.',
-  '268': 'BARI CIA HIPOTECÁRIA',
-  '269': 'BCO HSBC S.A.',
-  '270': 'SAGITUR CC - EM LIQUIDAÇÃO EXTRAJUDICIAL',
-  '271': 'BPY CCTVM S.A.',
-  '272': 'AGK CC S.A.',
-  '273': 'COOP SULCREDI AMPLEA',
-  '274': 'BMP SCMEPP LTDA',
-  '276': 'BCO SENFF S.A.',
-  '278': 'GENIAL INVESTIMENTOS CVM S.A.',
-  '279': 'COOP DE PRIMAVERA DO LESTE',
-  '280': 'WILL FINANCEIRA S.A.CFI',
-  '281': 'CCR COOPAVEL',
-  '283': 'RB INVESTIMENTOS DTVM LTDA.',
-  '285': 'FRENTE CC S.A.',
-  '286': 'UNIPRIME OURO - COOP DE OURO',
-  '288': 'CAROL DTVM LTDA.',
-  '289': 'EFX CC LTDA.',
-  '290': 'PAGSEGURO INTERNET IP S.A.',
-  '292': 'GALAPAGOS DTVM S.A.',
-  '293': 'LASTRO RDV DTVM LTDA',
-  '296': 'OZ CORRETORA DE CÂMBIO S.A.',
-  '298': 'VIPS CC S.A.',
-  '299': 'BCO AFINZ S.A. - BM',
-  '300': 'BCO LA NACION ARGENTINA',
-  '301': 'DOCK IP S.A.',
-  '305': 'FOURTRADE COR. DE CAMBIO LTDA',
-  '306': 'PORTOPAR DTVM LTDA',
-  '307': 'TERRA INVESTIMENTOS DTVM',
-  '309': 'CAMBIONET CC LTDA',
-  '310': 'VORTX DTVM LTDA.',
-  '311': 'DOURADA CORRETORA',
-  '312': 'HSCM SCMEPP LTDA.',
-  '313': 'AMAZÔNIA CC LTDA.',
-  '315': 'PI DTVM S.A.',
-  '318': 'BCO BMG S.A.',
-  '319': 'OM DTVM LTDA',
-  '320': 'BOC BRASIL',
-  '321': 'CREFAZ SCMEPP SA',
-  '322': 'CCR DE ABELARDO LUZ',
-  '323': 'MERCADO PAGO IP LTDA.',
-  '324': 'CARTOS SCD S.A.',
-  '325': 'ÓRAMA DTVM S.A.',
-  '326': 'PARATI - CFI S.A.',
-  '328': 'CECM FABRIC CALÇADOS SAPIRANGA',
-  '329': 'QI SCD S.A.',
-  '330': 'BANCO BARI S.A.',
-  '331': 'OSLO CAPITAL DTVM SA',
-  '332': 'ACESSO SOLUÇÕES DE PAGAMENTO S.A. - INSTITUIÇÃO DE PAGAMENTO',
-  '334': 'BANCO BESA S.A.',
-  '335': 'BANCO DIGIO',
-  '336': 'BCO C6 S.A.',
-  '340': 'SUPERDIGITAL I.P. S.A.',
-  '341': 'ITAÚ UNIBANCO S.A.',
-  '342': 'CREDITAS SCD',
-  '343': 'FFA SCMEPP LTDA.',
-  '348': 'BCO XP S.A.',
-  '349': 'AL5 S.A. SCFI',
-  '350': 'COOP DE AGRICULTORES E AEROPORTUÁRIOS DO BRASIL',
-  '352': 'TORO CTVM S.A.',
-  '354': 'NECTON INVESTIMENTOS S.A CVM',
-  '355': 'ÓTIMO SCD S.A.',
-  '358': 'MIDWAY S.A. - SCFI',
-  '359': 'ZEMA CFI S/A',
-  '360': 'TRINUS CAPITAL DTVM',
-  '362': 'CIELO IP S.A.',
-  '363': 'QI CTVM S.A.',
-  '364': 'EFÍ S.A. - IP',
-  '365': 'SIMPAUL',
-  '366': 'BCO SOCIETE GENERALE BRASIL',
-  '367': 'VITREO DTVM S.A.',
-  '368': 'BCO CSF S.A.',
-  '370': 'BCO MIZUHO S.A.',
-  '371': 'WARREN CVMC LTDA',
-  '373': 'UP.P SEP S.A.',
-  '374': 'REALIZE SCFI S.A.',
-  '376': 'BCO J.P. MORGAN S.A.',
-  '377': 'BMS SCD S.A.',
-  '378': 'BCO BRASILEIRO DE CRÉDITO S.A.',
-  '379': 'COOP COOPERFORTE LTDA.',
-  '380': 'PICPAY',
-  '381': 'BCO MERCEDES-BENZ S.A.',
-  '382': 'FIDUCIA SCMEPP LTDA',
-  '383': 'EBANX IP LTDA.',
-  '384': 'GLOBAL SCM LTDA',
-  '385': 'CECM DOS TRAB.PORT. DA G.VITOR',
-  '386': 'NU FINANCEIRA S.A. CFI',
-  '387': 'BCO TOYOTA DO BRASIL S.A.',
-  '389': 'BCO MERCANTIL DO BRASIL S.A.',
-  '390': 'BCO GM S.A.',
-  '391': 'CCR DE IBIAM',
-  '393': 'BCO VOLKSWAGEN S.A',
-  '394': 'BCO BRADESCO FINANC. S.A.',
-  '395': 'F D GOLD DTVM LTDA',
-  '396': 'MAGALUPAY',
-  '397': 'LISTO SCD S.A.',
-  '398': 'IDEAL CTVM S.A.',
-  '399': 'KIRTON BANK',
-  '400': 'COOP CREDITAG',
-  '401': 'IUGU IP S.A.',
-  '402': 'COBUCCIO S.A. SCFI',
-  '403': 'CORA SCFI',
-  '404': 'SUMUP SCD S.A.',
-  '406': 'ACCREDITO SCD S.A.',
-  '407': 'SEFER INVESTIMENTOS DTVM LTDA',
-  '408': 'BONUSPAGO SCD S.A.',
-  '410': 'PLANNER SOCIEDADE DE CRÉDITO DIRETO',
-  '411': 'VIA CERTA FINANCIADORA S.A. - CFI',
-  '412': 'SOCIAL BANK S/A',
-  '413': 'BCO BV S.A.',
-  '414': 'LEND SCD S.A.',
-  '415': 'BCO NACIONAL',
-  '416': 'LAMARA SCD S.A.',
-  '418': 'ZIPDIN SCD S.A.',
-  '419': 'NUMBRS SCD S.A.',
-  '421': 'CC LAR CREDI',
-  '422': 'BCO SAFRA S.A.',
-  '423': 'COLUNA S.A. DTVM',
-  '425': 'SOCINAL S.A. CFI',
-  '426': 'NEON FINANCEIRA - CFI S.A.',
-  '427': 'CRED.UFES',
-  '428': 'CREDSYSTEM SCD S.A.',
-  '429': 'CREDIARE CFI S.A.',
-  '430': 'CCR SEARA',
-  '433': 'BR-CAPITAL DTVM S.A.',
-  '435': 'DELCRED SCD S.A.',
-  '438': 'TRUSTEE DTVM LTDA.',
-  '439': 'ID CTVM',
-  '440': 'COOP CREDI&GENTE',
-  '442': 'MAGNETIS - DTVM',
-  '443': 'OCTA SCD S.A.',
-  '444': 'TRINUS SCD S.A.',
-  '445': 'PLANTAE CFI',
-  '447': 'MIRAE ASSET (BRASIL) CCTVM LTDA.',
-  '448': 'HEMERA DTVM LTDA.',
-  '449': 'DM',
-  '450': 'FITBANK IP',
-  '451': 'J17 - SCD S/A',
-  '452': 'CREDIFIT SCD S.A.',
-  '454': 'MÉRITO DTVM LTDA.',
-  '455': 'VIS DTVM LTDA',
-  '456': 'BCO MUFG BRASIL S.A.',
-  '457': 'UY3 SCD S/A',
-  '458': 'HEDGE INVESTMENTS DTVM LTDA.',
-  '459': 'CCM SERV. PÚBLICOS SP',
-  '460': 'UNAVANTI SCD S/A',
-  '461': 'ASAAS IP S.A.',
-  '462': 'STARK SCD S.A.',
-  '463': 'AZUMI DTVM',
-  '464': 'BCO SUMITOMO MITSUI BRASIL S.A.',
-  '465': 'CAPITAL CONSIG SCD S.A.',
-  '467': 'MASTER S/A CCTVM - EM LIQUIDAÇÃO EXTRAJUDICIAL',
-  '468': 'PORTOSEG S.A. CFI',
-  '469': 'PICPAY INVEST',
-  '470': 'CDC SCD S.A.',
-  '471': 'COOP CRESERV CREDISIS',
-  '473': 'BCO CAIXA GERAL BRASIL S.A.',
-  '475': 'BCO YAMAHA MOTOR S.A.',
-  '477': 'CITIBANK N.A.',
-  '478': 'GAZINCRED S.A. SCFI',
-  '479': 'BCO ITAUBANK S.A.',
-  '481': 'SUPERLÓGICA SCD S.A.',
-  '482': 'ARTTA SCD',
-  '484': 'MAF DTVM SA',
-  '487': 'DEUTSCHE BANK S.A.BCO ALEMAO',
-  '488': 'JPMORGAN CHASE BANK',
-  '492': 'ING BANK N.V.',
-  '495': 'BCO LA PROVINCIA B AIRES BCE',
-  '496': 'BBVA BRASIL BI S.A.',
-  '505': 'BCO UBS BRASIL',
-  '506': 'RJI',
-  '507': 'SCFI EFÍ S.A.',
-  '508': 'AVENUE SECURITIES DTVM LTDA.',
-  '509': 'CELCOIN IP S.A.',
-  '510': 'FFCRED SCD S.A.',
-  '511': 'MAGNUM SCD',
-  '512': 'FINVEST DTVM',
-  '513': 'ATF SCD S.A.',
-  '514': 'EXIM CC LTDA.',
-  '516': 'QISTA S.A. CFI',
-  '518': 'MERCADO CRÉDITO SCFI S.A.',
-  '519': 'LIONS TRUST DTVM',
-  '520': 'SOMAPAY SCD S.A.',
-  '521': 'PEAK SEP S.A.',
-  '522': 'RED SCD S.A.',
-  '523': 'HR DIGITAL SCD',
-  '524': 'WNT CAPITAL DTVM',
-  '525': 'INTERCAM CC LTDA',
-  '526': 'MONETARIE SCD',
-  '527': 'ATICCA SCD S.A.',
-  '528': 'REAG TRUST DTVM',
-  '529': 'PINBANK IP',
-  '530': 'SER FINANCE SCD S.A.',
-  '531': 'BMP SCD S.A.',
-  '532': 'EAGLE SCD S.A.',
-  '533': 'SRM BANK',
-  '534': 'EWALLY IP S.A.',
-  '535': 'OPEA SCD',
-  '536': 'NEON PAGAMENTOS S.A. IP',
-  '537': 'MICROCASH SCMEPP LTDA.',
-  '538': 'SUDACRED SCD S.A.',
-  '539': 'SANTINVEST S.A. - CFI',
-  '540': 'HBI SCD',
-  '541': 'FDO GARANTIDOR CRÉDITOS',
-  '542': 'CLOUDWALK IP LTDA',
-  '543': 'COOPCRECE',
-  '544': 'MULTICRED SCD S.A.',
-  '545': 'SENSO CCVM S.A.',
-  '546': 'OKTO IP',
-  '547': 'BNK DIGITAL SCD S.A.',
-  '548': 'RPW S.A. SCFI',
-  '549': 'INTRA DTVM',
-  '550': 'BEETELLER',
-  '551': 'VERT DTVM LTDA.',
-  '552': 'UZZIPAY IP S.A.',
-  '553': 'PERCAPITAL SCD S.A.',
-  '554': 'STONEX BANCO DE CÂMBIO S.A.',
-  '555': 'PAN FINANCEIRA S.A. - CRÉDITO, FINANCIAMENTO E INVESTIMENTOS',
-  '556': 'SAYGO CÂMBIO',
-  '557': 'PAGPRIME IP',
-  '558': 'QI DTVM LTDA.',
-  '559': 'KANASTRA CFI',
-  '560': 'MAG IP LTDA.',
-  '561': 'PAY4FUN IP S.A.',
-  '562': 'AZIMUT BRASIL DTVM LTDA',
-  '563': 'PROTEGE CASH',
-  '565': 'ÁGORA CTVM S.A.',
-  '566': 'FLAGSHIP IP LTDA',
-  '567': 'MERCANTIL FINANCEIRA',
-  '568': 'BRCONDOS SCD S.A.',
-  '569': 'CONTA PRONTA IP',
-  '572': 'ALL IN CRED SCD S.A.',
-  '573': 'OXY CH',
-  '574': 'A55 SCD S.A.',
-  '575': 'DGBK CREDIT S.A. - SOCIEDADE DE CRÉDITO DIRETO.',
-  '576': 'MERCADO BITCOIN IP LTDA',
-  '577': 'AF DESENVOLVE SP S.A.',
-  '578': 'SICRES',
-  '579': 'QUADRA SCD',
-  '580': 'CCCPOUPINV SUL E SUDESTE - CENTRAL SUL/SUDESTE',
-  '581': 'CENTRAL NORDESTE',
-  '582': 'CCC POUP INV DE MS, GO, DF E TO',
-  '583': 'CCC POUP INV DO CENTRO NORTE DO BRASIL',
-  '584': 'CCC POUP E INV DOS ESTADOS DO PR, SP E RJ',
-  '585': 'SETHI SCD SA',
-  '586': 'Z1 IP LTDA.',
-  '587': 'FIDD DTVM LTDA.',
-  '588': 'PROVER PROMOCAO DE VENDAS IP LTDA.',
-  '589': 'G5 SCD SA',
-  '590': 'REPASSES FINANCEIROS E SOLUCOES TECNOLOGICAS IP S.A.',
-  '591': 'BANVOX DTVM',
-  '592': 'MAPS IP LTDA.',
-  '593': 'TRANSFEERA IP S.A.',
-  '594': 'ASA SCFI S.A.',
-  '595': 'ZOOP MEIOS DE PAGAMENTO',
-  '597': 'ISSUER IP LTDA.',
-  '598': 'KONECT SCD S/A',
-  '599': 'AGORACRED S/A SCFI',
-  '600': 'BCO LUSO BRASILEIRO S.A.',
-  '604': 'BCO INDUSTRIAL DO BRASIL S.A.',
-  '610': 'BCO VR S.A.',
-  '611': 'BCO PAULISTA S.A.',
-  '612': 'BCO GUANABARA S.A.',
-  '613': 'OMNI BANCO S.A.',
-  '614': 'SANTS SCD S.A.',
-  '615': 'SMART SOLUTIONS GROUP IP LTDA',
-  '619': 'TRIO IP LTDA.',
-  '620': 'REVOLUT SCD S.A.',
-  '623': 'BANCO PAN',
-  '626': 'BCO C6 CONSIG',
-  '630': 'BANCO LETSBANK S.A. - EM LIQUIDAÇÃO EXTRAJUDICIAL',
-  '632': 'Z-ON SCD S.A.',
-  '633': 'BCO RENDIMENTO S.A.',
-  '634': 'BCO TRIANGULO S.A.',
-  '636': 'GIRO - SCD S/A',
-  '637': 'BCO SOFISA S.A.',
-  '643': 'BCO PINE S.A.',
-  '644': '321 SCD S.A.',
-  '646': 'DM SA CFI',
-  '651': 'PAGARE IP S.A.',
-  '652': 'ITAÚ UNIBANCO HOLDING S.A.',
-  '653': 'BM PLENO S.A.',
-  '654': 'BCO DIGIMAIS S.A.',
-  '655': 'BCO VOTORANTIM S.A.',
-  '659': 'ONEKEY PAYMENTS IP S.A.',
-  '660': 'PAGME IP LTDA',
-  '661': 'FREEX CC S.A.',
-  '662': 'WE PAY OUT IP LTDA.',
-  '663': 'ACTUAL DTVM S.A.',
-  '664': 'EAGLE IP LTDA.',
-  '665': 'STARK BANK S.A. - IP',
-  '666': 'URBANO S.A. SCFI',
-  '667': 'LIQUIDO IP LTDA',
-  '668': 'VIA CAPITAL SCD S/A',
-  '670': 'IP4Y IP LTDA.',
-  '671': 'ZERO IP',
-  '672': 'STONE CFI S.A.',
-  '673': 'CCR DO AGRESTE ALAGOANO',
-  '674': 'HINOVA PAY IP S.A.',
-  '675': 'BANQI',
-  '676': 'DUFRIO CFI S.A.',
-  '678': 'FIDEM SCD S/A',
-  '679': 'PAY IP S.A.',
-  '680': 'DELTA GLOBAL SCD S.A.',
-  '681': 'MT IP S.A.',
-  '682': 'MONERY IP S.A.',
-  '684': 'HARMOS S.A. - SCFI',
-  '685': 'TYCOON TECHNOLOGY IIP S.A',
-  '686': 'BIZ IP LTDA.',
-  '687': 'INCO SEP S.A.',
-  '688': 'KIKAI SCD S.A.',
-  '689': 'NVIO BRASIL SCD S.A.',
-  '690': 'BK IP S.A.',
-  '692': 'SQUID SCD S.A.',
-  '693': 'EFEX IP',
-  '694': 'WOOVI IP LTDA.',
-  '695': 'BEES IP LTDA.',
-  '697': 'MARMARIS',
-  '698': 'BIT SCD S.A.',
-  '699': 'BFC SCD S.A.',
-  '700': 'MW IP LTDA.',
-  '701': 'INTEGRAÇÃO DE CRÉDITO E COBRANÇA SCD',
-  '703': 'GETNET IP',
-  '704': 'FEATBANK IP LTDA',
-  '707': 'BCO DAYCOVAL S.A',
-  '708': 'BCO INDUSCRED DE INVESTIM. S/A',
-  '712': 'OURIBANK S.A.',
-  '714': 'FINAMAX S.A. CFI',
-  '719': 'BANCO MASTER MÚLTIPLO - SOB RAET',
-  '720': 'BCO RNX S.A.',
-  '739': 'BCO CETELEM S.A.',
-  '741': 'BCO RIBEIRAO PRETO S.A.',
-  '743': 'BANCO SEMEAR',
-  '745': 'BCO CITIBANK S.A.',
-  '746': 'BCO MODAL S.A.',
-  '747': 'BCO RABOBANK INTL BRASIL S.A.',
-  '748': 'BCO COOPERATIVO SICREDI S.A.',
-  '751': 'SCOTIABANK BRASIL',
-  '752': 'BCO BNP PARIBAS BRASIL S A',
-  '753': 'NOVO BCO CONTINENTAL S.A. - BM',
-  '754': 'BANCO SISTEMA',
-  '755': 'BOFA MERRILL LYNCH BM S.A.',
-  '756': 'BANCO SICOOB S.A.',
-  '757': 'BCO KEB HANA DO BRASIL S.A.',
-  '759': 'BANSUR JM SCD S.A.',
-  '760': 'EMCASH SERV FINANC SEP S.A.',
-  '761': 'URBANO S.A. SCFI',
-  '762': 'OPPENS SEP S.A.',
-  '763': 'VUE IP S.A.',
-  '764': 'INDEPENDÊNCIA CC',
-  '766': 'LB PAY IP LTDA',
-  '767': 'QORE',
-  '768': 'BECKER FINANCEIRA SA - CFI',
-  '769': '99PAY IP S.A.',
-  '771': 'WX IP LTDA.',
-  '772': 'CC MECUNP',
-  '773': 'KIWIFY IP',
-  '790': 'MAX IP',
-};
+function validBarcodeChecksum(barcode: string): boolean {
+  return barcodeChecksum(barcode) === barcode[BARCODE_CHECKSUM_POSITION];
+}
+
+/**
+ * Rearranges a 47-digit bank slip number into its 44-digit barcode
+ *
+ * @param bankSlipNumber - The 47-digit bank slip number
+ * @returns The barcode number
+ */
+function toBarcode(bankSlipNumber: string): string {
+  return bankSlipNumber.replace(
+    /^(\d{4})(\d{5})\d{1}(\d{10})\d{1}(\d{10})\d{1}(\d{15})$/,
+    '$1$5$2$3$4',
+  );
+}
+
+/**
+ * Lists everything wrong with a bank slip number as typed by a user
+ *
+ * Ranges are offsets into the input as given, so that formatted input can be
+ * highlighted directly. The general check digit is only verified when the
+ * field check digits match, since a typo within a field breaks both.
+ *
+ * @param input - The bank slip number, possibly formatted
+ * @returns The issues found, empty if the bank slip number is valid
+ */
+function validationIssues(input: string): BoletoValidationIssue[] {
+  const issues: BoletoValidationIssue[] = [];
+  const offsets: number[] = [];
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]!;
+    if (/\d/.test(char)) {
+      offsets.push(i);
+    } else if (!FORMATTING_CHARACTERS.test(char)) {
+      const previous = issues[issues.length - 1];
+      if (previous?.code === 'INVALID_CHARACTERS' && previous.end === i) {
+        previous.end = i + 1;
+        previous.message = `Unexpected characters "${input.substring(previous.start, i + 1)}"`;
+      } else {
+        issues.push({
+          code: 'INVALID_CHARACTERS',
+          start: i,
+          end: i + 1,
+          message: `Unexpected character "${char}"`,
+        });
+      }
+    }
+  }
+
+  const digits = offsets.map((offset) => input[offset]!).join('');
+  if (
+    digits.length === ARRECADACAO_NUMBER_LENGTH &&
+    digits.startsWith(ARRECADACAO_PRODUCT_ID)
+  ) {
+    issues.push({
+      code: 'UNSUPPORTED_TYPE',
+      start: 0,
+      end: input.length,
+      message: 'Expected a bank slip number, got an arrecadação number',
+    });
+    return issues;
+  }
+
+  if (digits.length !== BANK_SLIP_NUMBER_LENGTH) {
+    issues.push({
+      code: 'INVALID_LENGTH',
+      start: 0,
+      end: input.length,
+      message: `Expected ${BANK_SLIP_NUMBER_LENGTH} digits, got ${digits.length}`,
+    });
+    return issues;
+  }
+
+  const fields = invalidFields(digits);
+  for (const field of fields) {
+    const position = FIELD_CHECKSUM_POSITIONS[field - 1]!;
+    const start = field === 1 ? 0 : FIELD_CHECKSUM_POSITIONS[field - 2]! + 1;
+    const expected = modulo10(digits.substring(start, position)).toString();
+    issues.push({
+      code: 'INVALID_FIELD_DV',
+      start: offsets[start]!,
+      end: offsets[position]! + 1,
+      message: `Check digit of field ${field} does not match: expected ${expected}, got ${digits[position]!}`,
+      field,
+      expected,
+      actual: digits[position]!,
+    });
+  }
+
+  const barcode = toBarcode(digits);
+  if (fields.length === 0 && !validBarcodeChecksum(barcode)) {
+    const expected = barcodeChecksum(barcode);
+    const actual = digits[BANK_SLIP_CHECKSUM_POSITION]!;
+    issues.push({
+      code: 'INVALID_GENERAL_DV',
+      start: offsets[BANK_SLIP_CHECKSUM_POSITION]!,
+      end: offsets[BANK_SLIP_CHECKSUM_POSITION]! + 1,
+      message: `General check digit does not match: expected ${expected}, got ${actual}`,
+      expected,
+      actual,
+    });
+  }
+
+  return issues;
+}
 
 /**
  * Boleto class for parsing and rendering Brazilian bank payment slips
@@ -582,10 +450,13 @@ export class Boleto {
   constructor(bankSlipNumber: string) {
     this.bankSlipNumber = bankSlipNumber.replace(/[^\d]/g, '');
 
-    if (!this.valid()) {
+    const [issue] = validationIssues(this.bankSlipNumber);
+    if (issue !== undefined) {
+      const { code, message, field, expected, actual } = issue;
       throw new BoletoValidationError(
-        'Invalid bank slip number',
+        `Invalid bank slip number: ${message[0]!.toLowerCase()}${message.slice(1)}`,
         this.bankSlipNumber,
+        { code, field, expected, actual },
       );
     }
   }
@@ -594,23 +465,203 @@ export class Boleto {
    * Validates whether the bank slip number is valid or not
    *
    * The validation function ensures that the bank slip number is exactly 47
-   * characters long, then applies the modulo-11 algorithm to the bank slip's
-   * barcode. Finally, it verifies that the result of the algorithm equals the
-   * checksum digit from the bank slip number.
+   * characters long and that the modulo-10 check digits of its first three
+   * fields match. It then applies the modulo-11 algorithm to the bank slip's
+   * barcode and verifies that the result of the algorithm equals the checksum
+   * digit from the bank slip number.
    *
    * @returns Whether the bank slip number is valid or not
    */
   valid(): boolean {
     if (this.bankSlipNumber.length !== BANK_SLIP_NUMBER_LENGTH) return false;
+    if (invalidFields(this.bankSlipNumber).length > 0) return false;
+
+    return validBarcodeChecksum(this.barcode());
+  }
+
+  /**
+   * Lists everything wrong with a bank slip number, without throwing
+   *
+   * Unlike the constructor, which strips any non-digit character, characters
+   * other than digits, whitespace, dots and hyphens are reported, so that
+   * form inputs can point at the exact segment the user mistyped.
+   *
+   * @param input - The bank slip number, possibly formatted
+   * @returns The issues found, empty if the bank slip number is valid
+   *
+   * @example
+   * // Returns [{ code: 'INVALID_FIELD_DV', start: 12, end: 24, field: 2, ... }]
+   * Boleto.validate('23793.38128 86000.000019 00000.000380 1 84660000012345');
+   */
+  static validate(input: string): BoletoValidationIssue[] {
+    return validationIssues(input);
+  }
 
-    const barcodeDigits = this.barcode().split('');
-    const checksum = barcodeDigits[BARCODE_CHECKSUM_POSITION];
-    const digitsWithoutChecksum = [
-      ...barcodeDigits.slice(0, BARCODE_CHECKSUM_POSITION),
-      ...barcodeDigits.slice(BARCODE_CHECKSUM_POSITION + 1),
+  /**
+   * Parses a bank slip number, returning the issues found instead of throwing
+   *
+   * @param input - The bank slip number, possibly formatted
+   * @returns The Boleto on success, or the issues found by {@link Boleto.validate}
+   *
+   * @example
+   * const result = Boleto.safeParse(input);
+   * if (result.success) {
+   *   result.boleto.amount();
+   * } else {
+   *   result.issues.forEach((issue) => highlight(issue.start, issue.end));
+   * }
+   */
+  static safeParse(input: string): BoletoParseResult {
+    const issues = validationIssues(input);
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+    return { success: true, boleto: new Boleto(input) };
+  }
+
+  /**
+   * Creates a Boleto from its 44-digit barcode
+   *
+   * This is the inverse of {@link Boleto.barcode}: the barcode is rearranged
+   * into the linha digitável and the check digits of its first three fields
+   * are recomputed, so a scanned barcode behaves exactly like a typed number.
+   *
+   * @param barcode - The barcode number (can include non-digit characters which will be stripped)
+   * @returns The Boleto for the given barcode
+   * @throws BoletoValidationError if the barcode length or checksum is invalid
+   *
+   * @example
+   * // Returns '23793381288600000000900000000380184660000012345'
+   * Boleto.fromBarcode('23791846600000123453381286000000000000000038').number();
+   */
+  static fromBarcode(barcode: string): Boleto {
+    const digits = barcode.replace(/[^\d]/g, '');
+
+    if (digits.length !== BARCODE_LENGTH) {
+      throw new BoletoValidationError(
+        `Invalid barcode: expected ${BARCODE_LENGTH} digits, got ${digits.length}`,
+        digits,
+        { code: 'INVALID_LENGTH' },
+      );
+    }
+
+    if (!validBarcodeChecksum(digits)) {
+      const expected = barcodeChecksum(digits);
+      const actual = digits[BARCODE_CHECKSUM_POSITION]!;
+      throw new BoletoValidationError(
+        `Invalid barcode: general check digit does not match: expected ${expected}, got ${actual}`,
+        digits,
+        { code: 'INVALID_GENERAL_DV', expected, actual },
+      );
+    }
+
+    const fields = [
+      digits.substring(0, 4) + digits.substring(19, 24),
+      digits.substring(24, 34),
+      digits.substring(34, 44),
     ];
 
-    return modulo11(digitsWithoutChecksum).toString() === checksum;
+    return new Boleto(
+      fields.map((field) => field + modulo10(field)).join('') +
+        digits.substring(BARCODE_CHECKSUM_POSITION, 19),
+    );
+  }
+
+  /**
+   * Creates a Boleto from the parts of its barcode
+   *
+   * Encodes the due date factor, pads the amount, computes the modulo-11
+   * general check digit and the three field check digits, so issuers get a
+   * fully valid linha digitável.
+   *
+   * @param parts - The bank code, currency, due date, amount and campo livre
+   * @param referenceDate - The date the due date factor must decode around,
+   *                        see {@link Boleto.factorToDate} (default: now)
+   * @returns The Boleto built from the given parts
+   * @throws BoletoBuildError if one of the parts cannot be encoded
+   *
+   * @example
+   * // Returns '23793.38128 86000.000009 00000.000380 1 84660000012345'
+   * Boleto.fromParts({
+   *   bankCode: '237',
+   *   dueDate: new Date(2020, 11, 11),
+   *   amountInCents: 12345,
+   *   campoLivre: '3381286000000000000000038',
+   * }, new Date(2020, 0, 1)).prettyNumber();
+   */
+  static fromParts(
+    parts: BoletoParts,
+    referenceDate: Date = new Date(),
+  ): Boleto {
+    const { bankCode, currencyCode = '9', dueDate, campoLivre } = parts;
+
+    if (!/^\d{3}$/.test(bankCode)) {
+      throw new BoletoBuildError(
+        `fromParts: expected a 3-digit bank code, got "${bankCode}"`,
+        'bankCode',
+      );
+    }
+
+    if (!/^\d$/.test(currencyCode)) {
+      throw new BoletoBuildError(
+        `fromParts: expected a 1-digit currency code, got "${currencyCode}"`,
+        'currencyCode',
+      );
+    }
+
+    const dueDay =
+      dueDate instanceof Date ? localCalendarDate(dueDate) : dueDate;
+    let factor: number;
+    try {
+      factor = Boleto.dateToFactor(dueDay);
+    } catch {
+      factor = -1;
+    }
+    // The decoded due date is compared in São Paulo time, where it is set,
+    // so that the round trip holds whatever the host's time zone
+    if (
+      factor < 0 ||
+      formatISODate(
+        calendarDateIn(Boleto.factorToDate(factor, referenceDate)),
+      ) !== formatISODate(dueDay)
+    ) {
+      throw new BoletoBuildError(
+        `fromParts: due date ${formatISODate(dueDay)} is outside the due date factor range`,
+        'dueDate',
+      );
+    }
+
+    const amount = parts.amountInCents;
+    if (
+      (typeof amount === 'number' && !Number.isSafeInteger(amount)) ||
+      BigInt(amount) < 0n ||
+      BigInt(amount) > MAX_AMOUNT_IN_CENTS
+    ) {
+      throw new BoletoBuildError(
+        `fromParts: expected an amount between 0 and ${MAX_AMOUNT_IN_CENTS} cents, got ${amount}`,
+        'amountInCents',
+      );
+    }
+
+    if (!/^\d{25}$/.test(campoLivre)) {
+      throw new BoletoBuildError(
+        `fromParts: expected a 25-digit campo livre, got "${campoLivre}"`,
+        'campoLivre',
+      );
+    }
+
+    const digitsWithoutChecksum =
+      bankCode +
+      currencyCode +
+      factor.toString().padStart(4, '0') +
+      amount.toString().padStart(10, '0') +
+      campoLivre;
+
+    return Boleto.fromBarcode(
+      digitsWithoutChecksum.substring(0, BARCODE_CHECKSUM_POSITION) +
+        modulo11(digitsWithoutChecksum) +
+        digitsWithoutChecksum.substring(BARCODE_CHECKSUM_POSITION),
+    );
   }
 
   /**
@@ -625,10 +676,7 @@ export class Boleto {
    */
   barcode(): string {
     if (this._barcode === undefined) {
-      this._barcode = this.bankSlipNumber.replace(
-        /^(\d{4})(\d{5})\d{1}(\d{10})\d{1}(\d{10})\d{1}(\d{15})$/,
-        '$1$5$2$3$4',
-      );
+      this._barcode = toBarcode(this.bankSlipNumber);
     }
     return this._barcode;
   }
@@ -656,35 +704,79 @@ export class Boleto {
   }
 
   /**
-   * Returns the name of the bank that issued the bank slip
+   * Returns the bank that issued the bank slip
+   *
+   * Without arguments, returns the legal name of the bank as registered with
+   * the Central Bank, such as 'BCO BRADESCO S.A.', or 'Unknown'. With `true`,
+   * returns the full record of the bank registry instead, with its COMPE
+   * code, ISPB and short name.
+   *
+   * Banks missing from the registry can be added with {@link registerBank}.
+   *
+   * @param details - Whether to return the full bank record
+   * @returns The bank name, or the bank record (`null` if the bank is not registered)
+   *
+   * @example
+   * boleto.bank(); // 'BCO BRADESCO S.A.'
+   * boleto.bank(true)?.shortName; // 'Bradesco'
+   */
+  bank(): string;
+  bank(details: true): Bank | null;
+  bank(details?: boolean): string | Bank | null;
+  bank(details?: boolean): string | Bank | null {
+    const bank = bankByCode(this.barcode().substring(0, 3));
+    if (details) return bank;
+    return bank?.name ?? 'Unknown';
+  }
+
+  /**
+   * Returns the bank-specific fields of the bank slip's campo livre
+   *
+   * The campo livre, the last 25 digits of the barcode, holds fields such as
+   * agência, conta, carteira and nosso número, laid out differently by each
+   * bank. Banks whose layout is not known return the raw digits only.
+   *
+   * @param options - The decoding options
+   * @returns The decoded campo livre, discriminated by its `bank` property
+   *
+   * @see {@link decodeCampoLivre}
+   */
+  campoLivre(options?: CampoLivreOptions): CampoLivre {
+    const barcode = this.barcode();
+    return decodeCampoLivre(
+      barcode.substring(0, 3),
+      barcode.substring(19),
+      options,
+    );
+  }
+
+  /**
+   * Validates the nosso número check digit of the bank slip
    *
-   * This function is able to identify the most popular or commonly used banks
-   * in Brazil, but not all of them are included here.
+   * Banks that carry the check digit in the campo livre (Itaú, Santander,
+   * Sicoob and Sicredi) are verified as is. Bradesco and Caixa only print it
+   * next to the nosso número, so it must be passed in to be verified.
    *
-   * A comprehensive list of all Brazilian banks and their codes can be found at
-   * http://www.buscabanco.org.br/AgenciasBancos.asp
+   * @param checkDigit - The check digit printed next to the nosso número, if known
+   * @returns Whether the check digits are consistent, or null if nothing could be verified
    *
-   * @returns The bank name
+   * @see {@link validateNossoNumero}
    */
-  bank(): string {
-    const bankCode = this.barcode().substring(0, 3);
-    return BANK_CODES[bankCode] ?? 'Unknown';
+  validNossoNumero(checkDigit?: string): boolean | null {
+    return validateNossoNumero(this.campoLivre(), checkDigit);
   }
 
   /**
    * Returns the currency of the bank slip
    *
    * The currency is determined by the currency code, the fourth digit of the
-   * barcode. A list of values other than 9 (Brazilian Real) could not be found.
+   * barcode: 9 for the Brazilian Real and 0 for another currency, agreed with
+   * the bank, which applications can set with {@link registerCurrency}.
    *
-   * @returns The currency object or null if currency is unknown
+   * @returns The registered currency, or {@link UNKNOWN_CURRENCY}
    */
-  currency(): Readonly<Currency> | null {
-    const currencyCode = this.barcode()[BARCODE_CURRENCY_POSITION];
-    if (currencyCode === '9') {
-      return BRL_CURRENCY;
-    }
-    return null;
+  currency(): Readonly<Currency> {
+    return currencyByCode(this.barcode()[BARCODE_CURRENCY_POSITION]!);
   }
 
   /**
@@ -702,17 +794,206 @@ export class Boleto {
    * Returns the date when the bank slip is due
    *
    * The portion of the barcode ranging from its sixth to its ninth digits
-   * represent the number of days since the 7th of October, 1997 up to when the
-   * bank slip is good to be paid. Attempting to pay a bank slip after this date
-   * may incur extra fees.
+   * holds the due date factor, the number of days since the 7th of October,
+   * 1997 up to when the bank slip is good to be paid. Since the factor rolled
+   * over on the 22nd of February 2025, it is decoded relative to a reference
+   * date (see {@link Boleto.factorToDate}). Attempting to pay a bank slip after
+   * this date may incur extra fees.
+   *
+   * The date is an instant at 12:00 GMT-0300, which hosts in other time zones
+   * may print as another day; use {@link Boleto.dueDate} or
+   * {@link Boleto.dueDateISO} to display or compare the calendar date.
    *
+   * @param referenceDate - The date the factor is decoded around (default: now)
    * @returns The expiration date of the bank slip
    */
-  expirationDate(): Date {
-    const refDate = new Date(BOLETO_EPOCH);
-    const days = parseInt(this.barcode().substring(5, 9), 10);
+  expirationDate(referenceDate: Date = new Date()): Date {
+    const factor = parseInt(this.barcode().substring(5, 9), 10);
+    return Boleto.factorToDate(factor, referenceDate);
+  }
 
-    return new Date(refDate.getTime() + days * MILLISECONDS_PER_DAY);
+  /**
+   * Returns the due date as a calendar date, the same in every time zone
+   *
+   * @param referenceDate - The date the factor is decoded around (default: now)
+   * @returns The year, month (1-12) and day of the due date
+   *
+   * @example
+   * boleto.dueDate(); // { year: 2020, month: 12, day: 11 }
+   */
+  dueDate(referenceDate: Date = new Date()): CalendarDate {
+    return calendarDateIn(this.expirationDate(referenceDate));
+  }
+
+  /**
+   * Returns the due date as an ISO 8601 date
+   *
+   * @param referenceDate - The date the factor is decoded around (default: now)
+   * @returns The due date as YYYY-MM-DD, such as '2020-12-11'
+   */
+  dueDateISO(referenceDate: Date = new Date()): string {
+    return formatISODate(this.dueDate(referenceDate));
+  }
+
+  /**
+   * Returns the due date as a `Temporal.PlainDate`, when the runtime supports
+   * Temporal
+   *
+   * @param referenceDate - The date the factor is decoded around (default: now)
+   * @returns The due date, or null if `Temporal` is not available
+   */
+  dueDateTemporal(referenceDate: Date = new Date()): TemporalPlainDate | null {
+    return toTemporalPlainDate(this.dueDate(referenceDate));
+  }
+
+  /**
+   * Returns the number of days until the due date, counted in São Paulo time
+   * whatever the host's time zone
+   *
+   * @param at - The current instant, also the reference date of the factor (default: now)
+   * @returns The number of days, 0 on the due date and negative after it
+   */
+  daysUntilDue(at: Date = new Date()): number {
+    return daysBetween(calendarDateIn(at), this.dueDate(at));
+  }
+
+  /**
+   * Checks whether the bank slip is due today in São Paulo time, whatever the
+   * host's time zone
+   *
+   * @param at - The current instant, also the reference date of the factor (default: now)
+   * @returns true on the due date
+   */
+  isDueToday(at: Date = new Date()): boolean {
+    return this.daysUntilDue(at) === 0;
+  }
+
+  /**
+   * Returns the last date the bank slip can be paid without late charges
+   *
+   * A bank slip due on a weekend or a bank holiday can be paid on the next
+   * business day without penalty, so the due date rolls over to it. National
+   * holidays are always observed; state and municipal holidays are observed
+   * when registered with {@link registerHolidays} or given in the options.
+   * The rollover is applied to the due date in São Paulo time, whatever the
+   * host's time zone.
+   *
+   * @param referenceDate - The date the factor is decoded around (default: now)
+   * @param options - Additional holidays, such as those of the place of payment
+   * @returns The first business day on or after the due date, at 12:00 GMT-0300
+   *
+   * @example
+   * // Due on Saturday, 2020-12-12
+   * boleto.expirationDate(); // 2020-12-12
+   * boleto.effectiveDueDate(); // 2020-12-14
+   */
+  effectiveDueDate(
+    referenceDate: Date = new Date(),
+    options?: CalendarOptions,
+  ): Date {
+    const due = this.expirationDate(referenceDate);
+    const date = calendarDateIn(due);
+    const days = daysBetween(date, nextBusinessDay(date, options));
+    return new Date(due.getTime() + days * MILLISECONDS_PER_DAY);
+  }
+
+  /**
+   * Checks whether the bank slip is overdue on a date, after the business-day
+   * rollover of its due date
+   *
+   * @param at - The instant to check, also the reference date of the factor (default: now)
+   * @param options - Additional holidays, such as those of the place of payment
+   * @returns true if the day in São Paulo is after the effective due date
+   *
+   * @see {@link Boleto.effectiveDueDate}
+   */
+  isOverdue(at: Date = new Date(), options?: CalendarOptions): boolean {
+    const due = calendarDateIn(this.effectiveDueDate(at, options));
+    return daysBetween(calendarDateIn(at), due) < 0;
+  }
+
+  /**
+   * Converts a due date factor into the date it represents
+   *
+   * Factors below 1000 were only issued before the February 2025 rollover, so
+   * they always belong to the first cycle. Any other factor is decoded to the
+   * only date of its cycles that falls within 3000 days before and 6000 days
+   * after the reference date, read as a day in São Paulo like every other
+   * due date.
+   *
+   * @param factor - The due date factor (0 to 9999)
+   * @param referenceDate - The date the factor is decoded around (default: now)
+   * @returns The due date, at 12:00 GMT-0300
+   * @throws {RangeError} If the factor is not an integer between 0 and 9999
+   *
+   * @example
+   * // Returns 2025-02-22
+   * Boleto.factorToDate(1000, new Date(2025, 1, 1));
+   * // Returns 2000-07-03
+   * Boleto.factorToDate(1000, new Date(2000, 6, 1));
+   */
+  static factorToDate(factor: number, referenceDate: Date = new Date()): Date {
+    if (
+      !Number.isInteger(factor) ||
+      factor < 0 ||
+      factor > MAX_DUE_DATE_FACTOR
+    ) {
+      throw new RangeError(
+        `factorToDate: expected an integer between 0 and ${MAX_DUE_DATE_FACTOR}, got ${factor}`,
+      );
+    }
+
+    let days = factor;
+
+    if (factor >= MIN_DUE_DATE_FACTOR) {
+      const windowStart =
+        daysSinceEpoch(calendarDateIn(referenceDate)) -
+        DUE_DATE_WINDOW_PAST_DAYS;
+      const cycles = Math.ceil((windowStart - factor) / DUE_DATE_FACTOR_CYCLE);
+      days += Math.max(0, cycles) * DUE_DATE_FACTOR_CYCLE;
+    }
+
+    return new Date(BOLETO_EPOCH + days * MILLISECONDS_PER_DAY);
+  }
+
+  /**
+   * Converts a due date into its due date factor
+   *
+   * This is the inverse of {@link Boleto.factorToDate}: dates from the 22nd of
+   * February 2025 onwards wrap around to the 1000–9999 cycle. A `Date` is an
+   * instant, so its calendar day is read in São Paulo time, where due dates
+   * are set, and the round trip holds whatever the host's time zone. Pass a
+   * calendar date to convert a day regardless of time zones.
+   *
+   * @param date - The due date, as an instant or a calendar date
+   * @returns The due date factor
+   * @throws {RangeError} If the date is invalid or before the 7th of October, 1997
+   *
+   * @example
+   * // Returns 9999
+   * Boleto.dateToFactor({ year: 2025, month: 2, day: 21 });
+   * // Returns 1000
+   * Boleto.dateToFactor(new Date('2025-02-22T10:00:00-03:00'));
+   */
+  static dateToFactor(date: Date | CalendarDate): number {
+    let days = NaN;
+    if (!(date instanceof Date)) days = daysSinceEpoch(date);
+    else if (!Number.isNaN(date.getTime())) {
+      days = daysSinceEpoch(calendarDateIn(date));
+    }
+
+    if (Number.isNaN(days) || days < 0) {
+      throw new RangeError(
+        `dateToFactor: expected a date on or after 1997-10-07, got ${date instanceof Date ? date.toString() : formatISODate(date)}`,
+      );
+    }
+
+    if (days <= MAX_DUE_DATE_FACTOR) return days;
+
+    return (
+      ((days - MIN_DUE_DATE_FACTOR) % DUE_DATE_FACTOR_CYCLE) +
+      MIN_DUE_DATE_FACTOR
+    );
   }
 
   /**
@@ -721,23 +1002,52 @@ export class Boleto {
    * @returns The bank slip's raw amount as a string with 2 decimal places
    */
   amount(): string {
-    const amountStr = this.barcode().substring(9, 19);
-    return (parseInt(amountStr, 10) / 100.0).toFixed(2);
+    return centsToDecimal(BigInt(this.barcode().substring(9, 19)));
   }
 
   /**
-   * Returns the bank slip's formatted nominal amount
+   * Returns the bank slip's nominal amount in integer cents
+   *
+   * The amount has at most 10 digits, so it is always a safe integer; pass
+   * `true` to get a `bigint` instead, for ledgers that keep amounts as such.
    *
-   * @returns The bank slip's formatted amount with currency symbol
+   * @param asBigInt - Whether to return a `bigint`
+   * @returns The amount in cents
+   *
+   * @example
+   * boleto.amountInCents(); // 12345
+   * boleto.amountInCents(true); // 12345n
    */
-  prettyAmount(): string {
-    const currencyResult = this.currency();
+  amountInCents(): number;
+  amountInCents(asBigInt: true): bigint;
+  amountInCents(asBigInt?: boolean): number | bigint;
+  amountInCents(asBigInt?: boolean): number | bigint {
+    const cents = this.barcode().substring(9, 19);
+    return asBigInt ? BigInt(cents) : parseInt(cents, 10);
+  }
 
-    if (currencyResult === null) {
-      return this.amount();
-    }
+  /**
+   * Returns the bank slip's nominal amount as money in its currency
+   *
+   * @returns The amount in cents, with the currency of {@link Boleto.currency}
+   *
+   * @example
+   * boleto.money().add(fine).toString(); // 'R$ 125,95'
+   */
+  money(): Money {
+    return new Money(this.amountInCents(true), this.currency());
+  }
 
-    return `${currencyResult.symbol} ${this.amount().replace('.', currencyResult.decimal)}`;
+  /**
+   * Returns the bank slip's formatted nominal amount
+   *
+   * @returns The bank slip's formatted amount with currency symbol, or the
+   *          bare amount when the currency is unknown
+   *
+   * @see {@link formatAmount}
+   */
+  prettyAmount(): string {
+    return formatAmount(this.amount(), this.currency());
   }
 
   /**
@@ -747,6 +1057,7 @@ export class Boleto {
    * to render the barcode using framework-native components instead of direct
    * DOM manipulation.
    *
+   * @param options - The ratio, physical size and colors of the barcode
    * @returns The barcode data with stripe positions, dimensions, and colors
    *
    * @example
@@ -758,24 +1069,71 @@ export class Boleto {
    * </svg>
    * ```
    *
-   * @see {@link SVG.toBarcodeData}
+   * @see {@link barcodeData}
    */
-  barcodeData(): BarcodeData {
-    const stripes = encode(this.barcode());
-    return new SVG(stripes).toBarcodeData();
+  barcodeData(options: BarcodeOptions = {}): BarcodeData {
+    return barcodeData(this.barcode(), options);
   }
 
   /**
    * Renders the bank slip as a child of the provided selector
    *
-   * @param selector - The selector to the object where the SVG must be appended.
-   *                   If omitted, returns the SVG as a string.
+   * The barcode is drawn at the FEBRABAN print size by default: 0.25 mm
+   * narrow bars, a 1:3 ratio, 13 mm of height and quiet zones of 10 narrow
+   * bars. With `humanReadable`, the 44 barcode digits are printed under it.
+   *
+   * @param selectorOrOptions - The selector to the object where the SVG must be appended,
+   *                            or the options when returning the SVG as a string
+   * @param options - The ratio, physical size, colors, accessible name and
+   *                  human-readable text of the barcode
    * @returns null if selector is provided (SVG is appended to DOM), otherwise returns SVG string
    *
-   * @see {@link SVG.render}
+   * @see {@link renderBarcodeSVG}
+   */
+  toSVG(
+    selectorOrOptions?: string | BarcodeOptions,
+    options: BarcodeOptions = {},
+  ): string | null {
+    return renderBarcodeSVG(this.barcode(), selectorOrOptions, options);
+  }
+
+  /**
+   * Renders the bank slip's barcode as a grayscale PNG image
+   *
+   * @param options - The ratio, module width, height, quiet zone and bit depth
+   * @returns The PNG file bytes
+   *
+   * @see {@link renderBarcodePNG}
+   */
+  toPNG(options?: BarcodePNGOptions): Uint8Array {
+    return renderBarcodePNG(this.barcode(), options);
+  }
+
+  /**
+   * Draws the bank slip's barcode on a 2D canvas context
+   *
+   * @param context - A `CanvasRenderingContext2D` or `OffscreenCanvasRenderingContext2D`
+   * @param options - The ratio, bar width, quiet zone, colors, position,
+   *                  scale and pixel snapping options
+   *
+   * @see {@link drawBarcodeCanvas}
+   */
+  toCanvas(
+    context: BarcodeCanvasContext,
+    options?: BarcodeCanvasOptions,
+  ): void {
+    drawBarcodeCanvas(context, this.barcode(), options);
+  }
+
+  /**
+   * Renders the full bank slip page as a single-page A4 PDF document
+   *
+   * @param data - The printed fields that are not encoded in the bank slip number
+   * @returns The PDF file bytes
+   *
+   * @see {@link renderPDF} to put several bank slips in one document
    */
-  toSVG(selector?: string): string | null {
-    const stripes = encode(this.barcode());
-    return new SVG(stripes).render(selector);
+  toPDF(data: FichaData): Uint8Array {
+    return renderPDF([{ boleto: this, data }]);
   }
 }
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for business-day calendar module
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calendarDateIn,
+  calendarDay,
+  daysBetween,
+  easterSunday,
+  formatISODate,
+  holidays,
+  isBusinessDay,
+  nationalHolidays,
+  nextBusinessDay,
+  registerHolidays,
+  toTemporalPlainDate,
+} from './calendar.js';
+import type { HolidayProvider } from './calendar.js';
+
+describe('calendarDay', () => {
+  it('should count the days since the Unix epoch', () => {
+    expect(calendarDay({ year: 1970, month: 1, day: 1 })).toBe(0);
+    expect(calendarDay({ year: 1970, month: 1, day: 2 })).toBe(1);
+    expect(calendarDay({ year: 1969, month: 12, day: 31 })).toBe(-1);
+    expect(calendarDay({ year: 2020, month: 12, day: 11 })).toBe(18607);
+  });
+});
+
+describe('calendarDateIn', () => {
+  it('should return the calendar date in São Paulo time', () => {
+    // 01:00 UTC is 22:00 of the previous day in São Paulo
+    expect(calendarDateIn(new Date('2025-02-22T01:00:00Z'))).toEqual({
+      year: 2025,
+      month: 2,
+      day: 21,
+    });
+    expect(calendarDateIn(new Date('2025-02-22T03:00:00Z'))).toEqual({
+      year: 2025,
+      month: 2,
+      day: 22,
+    });
+  });
+
+  it('should return the calendar date in another time zone', () => {
+    expect(
+      calendarDateIn(new Date('2025-02-22T01:00:00Z'), 'Asia/Tokyo'),
+    ).toEqual({ year: 2025, month: 2, day: 22 });
+  });
+
+  it('should throw RangeError for an invalid date or time zone', () => {
+    expect(() => calendarDateIn(new Date(NaN))).toThrow(
+      'calendarDateIn: expected a valid date, got Invalid Date',
+    );
+    expect(() => calendarDateIn(new Date(), 'Nowhere/Town')).toThrow(
+      RangeError,
+    );
+  });
+});
+
+describe('formatISODate', () => {
+  it('should pad the year, month and day', () => {
+    expect(formatISODate({ year: 2025, month: 2, day: 3 })).toBe('2025-02-03');
+    expect(formatISODate({ year: 2020, month: 12, day: 11 })).toBe(
+      '2020-12-11',
+    );
+  });
+});
+
+describe('daysBetween', () => {
+  it('should count days across months and years', () => {
+    const from = { year: 2024, month: 12, day: 30 };
+    expect(daysBetween(from, { year: 2025, month: 1, day: 2 })).toBe(3);
+    expect(daysBetween({ year: 2025, month: 1, day: 2 }, from)).toBe(-3);
+    expect(daysBetween(from, from)).toBe(0);
+  });
+});
+
+describe('toTemporalPlainDate', () => {
+  const global = globalThis as { Temporal?: unknown };
+
+  it('should return null without Temporal', () => {
+    const original = global.Temporal;
+    delete global.Temporal;
+    try {
+      expect(toTemporalPlainDate({ year: 2025, month: 2, day: 22 })).toBeNull();
+    } finally {
+      if (original) global.Temporal = original;
+    }
+  });
+
+  it('should create a PlainDate when Temporal is available', () => {
+    const original = global.Temporal;
+    global.Temporal = {
+      PlainDate: {
+        from: (fields: { year: number; month: number; day: number }) => ({
+          ...fields,
+          toString: () => formatISODate(fields),
+        }),
+      },
+    };
+    try {
+      const date = toTemporalPlainDate({ year: 2025, month: 2, day: 22 });
+      expect(date?.toString()).toBe('2025-02-22');
+      expect(date?.month).toBe(2);
+    } finally {
+      if (original) global.Temporal = original;
+      else delete global.Temporal;
+    }
+  });
+});
+
+describe('easterSunday', () => {
+  it.each([
+    [2020, '2020-04-12'],
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2038, '2038-04-25'],
+  ])('should return Easter Sunday of %i', (year, expected) => {
+    expect(formatISODate(easterSunday(year))).toBe(expected);
+  });
+
+  it('should throw RangeError for a non-integer year', () => {
+    expect(() => easterSunday(2025.5)).toThrow(
+      'easterSunday: expected an integer year, got 2025.5',
+    );
+  });
+});
+
+describe('nationalHolidays', () => {
+  it('should include the movable holidays computed from Easter', () => {
+    const names = new Map(
+      nationalHolidays(2025).map(({ date, name }) => [
+        formatISODate(date),
+        name,
+      ]),
+    );
+    expect(names.get('2025-03-03')).toBe('Carnaval');
+    expect(names.get('2025-03-04')).toBe('Carnaval');
+    expect(names.get('2025-04-18')).toBe('Sexta-feira Santa');
+    expect(names.get('2025-06-19')).toBe('Corpus Christi');
+    expect(names.get('2025-04-21')).toBe('Tiradentes');
+    expect(names.get('2025-12-31')).toBe(
+      'Último dia do ano (sem expediente bancário)',
+    );
+  });
+
+  it('should return the holidays in date order', () => {
+    const dates = nationalHolidays(2025).map(({ date }) => calendarDay(date));
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+    expect(dates).toHaveLength(14);
+  });
+
+  it('should include Consciência Negra only from 2024', () => {
+    const has20November = (year: number) =>
+      nationalHolidays(year).some(
+        ({ date }) => formatISODate(date) === `${year}-11-20`,
+      );
+    expect(has20November(2023)).toBe(false);
+    expect(has20November(2024)).toBe(true);
+  });
+});
+
+describe('isBusinessDay', () => {
+  it('should reject weekends and holidays', () => {
+    expect(isBusinessDay({ year: 2025, month: 4, day: 22 })).toBe(true);
+    expect(isBusinessDay({ year: 2025, month: 4, day: 21 })).toBe(false);
+    expect(isBusinessDay({ year: 2025, month: 4, day: 19 })).toBe(false);
+    expect(isBusinessDay({ year: 2025, month: 4, day: 20 })).toBe(false);
+  });
+
+  it('should observe the holidays given in the options', () => {
+    const saoPaulo: HolidayProvider = (year) => [
+      { date: { year, month: 1, day: 25 }, name: 'Aniversário de São Paulo' },
+    ];
+    const date = { year: 2024, month: 1, day: 25 };
+    expect(isBusinessDay(date)).toBe(true);
+    expect(isBusinessDay(date, { holidays: [saoPaulo] })).toBe(false);
+  });
+});
+
+describe('nextBusinessDay', () => {
+  it('should return the date itself on a business day', () => {
+    const date = { year: 2025, month: 4, day: 22 };
+    expect(nextBusinessDay(date)).toEqual(date);
+  });
+
+  it('should roll over weekends and holidays', () => {
+    // Carnival Monday and Tuesday
+    expect(nextBusinessDay({ year: 2025, month: 3, day: 3 })).toEqual({
+      year: 2025,
+      month: 3,
+      day: 5,
+    });
+    // Good Friday, the weekend and Tiradentes on Monday
+    expect(
+      formatISODate(nextBusinessDay({ year: 2025, month: 4, day: 18 })),
+    ).toBe('2025-04-22');
+    // The last day of the year and New Year's Day
+    expect(
+      formatISODate(nextBusinessDay({ year: 2025, month: 12, day: 31 })),
+    ).toBe('2026-01-02');
+  });
+
+  it('should throw RangeError for a date that does not exist', () => {
+    expect(() => nextBusinessDay({ year: 2025, month: 2, day: 30 })).toThrow(
+      'nextBusinessDay: expected a valid calendar date, got 2025-02-30',
+    );
+    expect(() => nextBusinessDay({ year: 2025, month: 1, day: 1.5 })).toThrow(
+      RangeError,
+    );
+  });
+
+  it('should throw RangeError when no business day is found', () => {
+    const everyDay: HolidayProvider = (year) =>
+      Array.from({ length: 366 }, (_, index) => ({
+        date: { year, month: 1, day: index + 1 },
+        name: 'Feriado',
+      }));
+    expect(() =>
+      nextBusinessDay(
+        { year: 2025, month: 1, day: 1 },
+        { holidays: [everyDay] },
+      ),
+    ).toThrow(RangeError);
+  });
+});
+
+describe('registerHolidays', () => {
+  it('should observe registered holidays until removed', () => {
+    const date = { year: 2024, month: 1, day: 25 };
+    const unregister = registerHolidays((year) => [
+      { date: { year, month: 1, day: 25 }, name: 'Aniversário de São Paulo' },
+    ]);
+
+    try {
+      expect(isBusinessDay(date)).toBe(false);
+      expect(holidays(2024).map(({ name }) => name)).toContain(
+        'Aniversário de São Paulo',
+      );
+    } finally {
+      unregister();
+    }
+
+    expect(isBusinessDay(date)).toBe(true);
+  });
+});
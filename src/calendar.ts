@@ -0,0 +1,405 @@
+/**
+ * Calendar dates in São Paulo time and the Brazilian business-day calendar
+ *
+ * @module Calendar
+ */
+
+/**
+ * Milliseconds in a day
+ */
+export const MILLISECONDS_PER_DAY = 86400000;
+
+/**
+ * Maximum number of consecutive days without a business day, beyond which
+ * the holiday providers are assumed to be wrong
+ */
+const MAX_NON_BUSINESS_DAYS = 31;
+
+/**
+ * The time zone bank slip due dates are set in
+ */
+const SAO_PAULO_TIME_ZONE = 'America/Sao_Paulo';
+
+/**
+ * A date without a time of day or a time zone
+ */
+export interface CalendarDate {
+  /** The year, such as 2025 */
+  year: number;
+  /** The month, from 1 (January) to 12 (December) */
+  month: number;
+  /** The day of the month, from 1 to 31 */
+  day: number;
+}
+
+/**
+ * The parts of `Temporal.PlainDate` returned by {@link toTemporalPlainDate},
+ * for libraries that do not include the Temporal types yet
+ */
+export interface TemporalPlainDate {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  toString(): string;
+}
+
+/**
+ * A holiday on which banks do not open to the public
+ */
+export interface Holiday {
+  /** The day of the holiday */
+  date: CalendarDate;
+  /** The name of the holiday, such as 'Tiradentes' */
+  name: string;
+}
+
+/**
+ * Returns the holidays of a year, such as the state or municipal holidays of
+ * the place of payment
+ */
+export type HolidayProvider = (year: number) => readonly Holiday[];
+
+/**
+ * Options for business-day calculations
+ */
+export interface CalendarOptions {
+  /** Holidays observed in addition to the registered ones, such as municipal holidays (default: none) */
+  holidays?: readonly HolidayProvider[];
+}
+
+/**
+ * National holidays on a fixed date, as [month (1-12), day, name, first year]
+ */
+const FIXED_NATIONAL_HOLIDAYS: readonly [number, number, string, number][] = [
+  [1, 1, 'Confraternização Universal', 0],
+  [4, 21, 'Tiradentes', 0],
+  [5, 1, 'Dia do Trabalho', 0],
+  [9, 7, 'Independência do Brasil', 0],
+  [10, 12, 'Nossa Senhora Aparecida', 0],
+  [11, 2, 'Finados', 0],
+  [11, 15, 'Proclamação da República', 0],
+  // A national holiday since Law 14.759/2023
+  [11, 20, 'Dia Nacional de Zumbi e da Consciência Negra', 2024],
+  [12, 25, 'Natal', 0],
+  // Banks do not open to the public, so bank slips due on it are paid on the
+  // next business day
+  [12, 31, 'Último dia do ano (sem expediente bancário)', 0],
+];
+
+/**
+ * Bank holidays relative to Easter Sunday, as [days after Easter, name]
+ */
+const EASTER_HOLIDAYS: readonly [number, string][] = [
+  [-48, 'Carnaval'],
+  [-47, 'Carnaval'],
+  [-2, 'Sexta-feira Santa'],
+  [60, 'Corpus Christi'],
+];
+
+/**
+ * Date formatters by time zone, reused since creating them is costly
+ */
+const DATE_FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The registered holiday providers, starting with the national holidays
+ */
+const HOLIDAY_PROVIDERS: HolidayProvider[] = [nationalHolidays];
+
+/**
+ * Returns the number of days since the Unix epoch of a calendar date
+ *
+ * @param date - The calendar date
+ * @returns The day number, 0 for the 1st of January 1970
+ */
+export function calendarDay(date: CalendarDate): number {
+  return Math.round(
+    Date.UTC(date.year, date.month - 1, date.day) / MILLISECONDS_PER_DAY,
+  );
+}
+
+/**
+ * Returns the calendar date of a day number
+ *
+ * @param day - The number of days since the Unix epoch
+ * @returns The calendar date
+ */
+function fromCalendarDay(day: number): CalendarDate {
+  const date = new Date(day * MILLISECONDS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+/**
+ * Returns the calendar date of an instant in a time zone
+ *
+ * @param date - The instant
+ * @param timeZone - The IANA time zone (default: 'America/Sao_Paulo')
+ * @returns The year, month and day in that time zone
+ * @throws {RangeError} If the date is invalid or the time zone is unknown
+ *
+ * @example
+ * // 01:00 UTC is still the previous day in São Paulo
+ * calendarDateIn(new Date('2025-02-22T01:00:00Z')); // { year: 2025, month: 2, day: 21 }
+ */
+export function calendarDateIn(
+  date: Date,
+  timeZone: string = SAO_PAULO_TIME_ZONE,
+): CalendarDate {
+  if (Number.isNaN(date.getTime())) {
+    throw new RangeError(
+      'calendarDateIn: expected a valid date, got Invalid Date',
+    );
+  }
+
+  let formatter = DATE_FORMATTERS.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+    });
+    DATE_FORMATTERS.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(({ type, value }) => [type, value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+  };
+}
+
+/**
+ * Returns the calendar date of a date in the host's local time
+ *
+ * @param date - The date
+ * @returns The year, month and day, as given to `new Date(year, month - 1, day)`
+ */
+export function localCalendarDate(date: Date): CalendarDate {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+  };
+}
+
+/**
+ * Formats a calendar date as an ISO 8601 date, such as '2025-02-22'
+ *
+ * @param date - The calendar date
+ * @returns The date as YYYY-MM-DD
+ */
+export function formatISODate(date: CalendarDate): string {
+  const pad = (value: number, length: number) =>
+    String(value).padStart(length, '0');
+  return `${pad(date.year, 4)}-${pad(date.month, 2)}-${pad(date.day, 2)}`;
+}
+
+/**
+ * Returns the number of days from one calendar date to another
+ *
+ * @param from - The first date
+ * @param to - The second date
+ * @returns The number of days, negative if `to` is before `from`
+ */
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  return calendarDay(to) - calendarDay(from);
+}
+
+/**
+ * Converts a calendar date into a `Temporal.PlainDate`, when the runtime
+ * supports Temporal
+ *
+ * @param date - The calendar date
+ * @returns The plain date, or null if `Temporal` is not available
+ */
+export function toTemporalPlainDate(
+  date: CalendarDate,
+): TemporalPlainDate | null {
+  const { Temporal } = globalThis as {
+    Temporal?: {
+      PlainDate: { from(fields: CalendarDate): TemporalPlainDate };
+    };
+  };
+  if (!Temporal) return null;
+  const { year, month, day } = date;
+  return Temporal.PlainDate.from({ year, month, day });
+}
+
+/**
+ * Returns the calendar date a number of days later
+ *
+ * @param date - The calendar date
+ * @param days - The number of days to add
+ * @returns The new calendar date
+ */
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromCalendarDay(calendarDay(date) + days);
+}
+
+/**
+ * Returns Easter Sunday of a year in the Gregorian calendar
+ *
+ * @param year - The year
+ * @returns The calendar date of Easter Sunday
+ * @throws {RangeError} If the year is not an integer
+ *
+ * @example
+ * easterSunday(2025); // { year: 2025, month: 4, day: 20 }
+ */
+export function easterSunday(year: number): CalendarDate {
+  if (!Number.isInteger(year)) {
+    throw new RangeError(`easterSunday: expected an integer year, got ${year}`);
+  }
+
+  // Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return { year, month, day };
+}
+
+/**
+ * Returns the national bank holidays of a year
+ *
+ * These are the fixed national holidays, the last day of the year, and
+ * Carnival, Good Friday and Corpus Christi, which are computed from Easter.
+ *
+ * @param year - The year
+ * @returns The holidays, in date order
+ */
+export function nationalHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  return [
+    ...FIXED_NATIONAL_HOLIDAYS.filter(([, , , since]) => year >= since).map(
+      ([month, day, name]) => ({ date: { year, month, day }, name }),
+    ),
+    ...EASTER_HOLIDAYS.map(([offset, name]) => ({
+      date: addDays(easter, offset),
+      name,
+    })),
+  ].sort((a, b) => calendarDay(a.date) - calendarDay(b.date));
+}
+
+/**
+ * Registers holidays observed on every business-day calculation, in addition
+ * to the national holidays
+ *
+ * @param provider - Returns the holidays of a year
+ * @returns A function that removes the provider again
+ *
+ * @example
+ * // São Paulo's anniversary, for an application whose payments are made there
+ * registerHolidays((year) => [
+ *   { date: { year, month: 1, day: 25 }, name: 'Aniversário de São Paulo' },
+ * ]);
+ */
+export function registerHolidays(provider: HolidayProvider): () => void {
+  HOLIDAY_PROVIDERS.push(provider);
+  return () => {
+    const index = HOLIDAY_PROVIDERS.indexOf(provider);
+    if (index >= 0) HOLIDAY_PROVIDERS.splice(index, 1);
+  };
+}
+
+/**
+ * Returns the holidays of a year, from the registered providers and the ones
+ * given in the options
+ *
+ * @param year - The year
+ * @param options - Additional holiday providers
+ * @returns The holidays, in date order
+ */
+export function holidays(
+  year: number,
+  options: CalendarOptions = {},
+): Holiday[] {
+  return [...HOLIDAY_PROVIDERS, ...(options.holidays ?? [])]
+    .flatMap((provider) => provider(year))
+    .sort((a, b) => calendarDay(a.date) - calendarDay(b.date));
+}
+
+/**
+ * Checks whether a calendar date is a business day: neither a weekend nor a
+ * holiday
+ *
+ * Dates are calendar dates rather than instants, so the answer is the same
+ * whatever the host's time zone; use {@link calendarDateIn} to check the day
+ * of an instant in São Paulo.
+ *
+ * @param date - The calendar date
+ * @param options - Additional holiday providers
+ * @returns true if banks open on that day
+ *
+ * @example
+ * isBusinessDay({ year: 2025, month: 4, day: 21 }); // false, Tiradentes
+ */
+export function isBusinessDay(
+  date: CalendarDate,
+  options: CalendarOptions = {},
+): boolean {
+  const day = calendarDay(date);
+  // The 1st of January 1970 was a Thursday
+  const weekday = (((day + 4) % 7) + 7) % 7;
+  if (weekday === 0 || weekday === 6) return false;
+
+  return !holidays(date.year, options).some(
+    (holiday) => calendarDay(holiday.date) === day,
+  );
+}
+
+/**
+ * Returns the first business day on or after a calendar date
+ *
+ * @param date - The calendar date
+ * @param options - Additional holiday providers
+ * @returns The date itself if it is a business day, or the next business day
+ * @throws {RangeError} If the date does not exist, or no business day is
+ *                      found within 31 days
+ *
+ * @example
+ * // Carnival Monday and Tuesday roll over to Ash Wednesday
+ * nextBusinessDay({ year: 2025, month: 3, day: 3 }); // { year: 2025, month: 3, day: 5 }
+ */
+export function nextBusinessDay(
+  date: CalendarDate,
+  options: CalendarOptions = {},
+): CalendarDate {
+  const start = calendarDay(date);
+  if (
+    !Number.isInteger(start) ||
+    formatISODate(fromCalendarDay(start)) !== formatISODate(date)
+  ) {
+    throw new RangeError(
+      `nextBusinessDay: expected a valid calendar date, got ${formatISODate(date)}`,
+    );
+  }
+
+  for (let days = 0; days <= MAX_NON_BUSINESS_DAYS; days += 1) {
+    const candidate = fromCalendarDay(start + days);
+    if (isBusinessDay(candidate, options)) return candidate;
+  }
+
+  throw new RangeError(
+    `nextBusinessDay: no business day within ${MAX_NON_BUSINESS_DAYS} days of ${formatISODate(date)}`,
+  );
+}
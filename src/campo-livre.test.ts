@@ -0,0 +1,149 @@
+/**
+ * Unit tests for campo livre decoding module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeCampoLivre } from './campo-livre.js';
+
+describe('decodeCampoLivre', () => {
+  describe('Banco do Brasil (001)', () => {
+    it('should detect a 7-digit convênio by its leading zeros', () => {
+      expect(decodeCampoLivre('001', '0000001234567000000012318')).toEqual({
+        bank: 'banco-do-brasil',
+        raw: '0000001234567000000012318',
+        convenioLength: 7,
+        convenio: '1234567',
+        nossoNumero: '12345670000000123',
+        agencia: null,
+        conta: null,
+        carteira: '18',
+      });
+    });
+
+    it('should default to a 6-digit convênio', () => {
+      expect(decodeCampoLivre('001', '1234560000112340001234518')).toEqual({
+        bank: 'banco-do-brasil',
+        raw: '1234560000112340001234518',
+        convenioLength: 6,
+        convenio: '123456',
+        nossoNumero: '12345600001',
+        agencia: '1234',
+        conta: '00012345',
+        carteira: '18',
+      });
+    });
+
+    it('should decode a 4-digit convênio when told so', () => {
+      const result = decodeCampoLivre('001', '1234000000112340001234518', {
+        convenioLength: 4,
+      });
+      expect(result).toMatchObject({
+        convenioLength: 4,
+        convenio: '1234',
+        nossoNumero: '12340000001',
+        agencia: '1234',
+        conta: '00012345',
+        carteira: '18',
+      });
+    });
+  });
+
+  it('should decode a Bradesco (237) campo livre', () => {
+    expect(decodeCampoLivre('237', '3381286000000000000000038')).toEqual({
+      bank: 'bradesco',
+      raw: '3381286000000000000000038',
+      agencia: '3381',
+      carteira: '28',
+      nossoNumero: '60000000000',
+      conta: '0000003',
+    });
+  });
+
+  it('should decode an Itaú (341) campo livre', () => {
+    expect(decodeCampoLivre('341', '1091234567881234123457000')).toEqual({
+      bank: 'itau',
+      raw: '1091234567881234123457000',
+      carteira: '109',
+      nossoNumero: '12345678',
+      nossoNumeroDigit: '8',
+      agencia: '1234',
+      conta: '12345',
+      contaDigit: '7',
+    });
+  });
+
+  it('should decode a Caixa (104) SIGCB campo livre', () => {
+    expect(decodeCampoLivre('104', '0058140000100040000000015')).toEqual({
+      bank: 'caixa',
+      raw: '0058140000100040000000015',
+      beneficiario: '005814',
+      beneficiarioDigit: '0',
+      modalidade: '1',
+      emissao: '4',
+      nossoNumero: '14000000000000001',
+      campoLivreDigit: '5',
+    });
+  });
+
+  it('should decode a Santander (033) campo livre', () => {
+    expect(decodeCampoLivre('033', '9123456700000000012350101')).toEqual({
+      bank: 'santander',
+      raw: '9123456700000000012350101',
+      beneficiario: '1234567',
+      nossoNumero: '000000000123',
+      nossoNumeroDigit: '5',
+      iof: '0',
+      carteira: '101',
+    });
+  });
+
+  it('should decode a Sicoob (756) campo livre', () => {
+    expect(decodeCampoLivre('756', '1300101123456700000213001')).toEqual({
+      bank: 'sicoob',
+      raw: '1300101123456700000213001',
+      carteira: '1',
+      agencia: '3001',
+      modalidade: '01',
+      beneficiario: '1234567',
+      nossoNumero: '0000021',
+      nossoNumeroDigit: '3',
+      parcela: '001',
+    });
+  });
+
+  it('should decode a Sicredi (748) campo livre', () => {
+    expect(decodeCampoLivre('748', '1126200001707100212345105')).toEqual({
+      bank: 'sicredi',
+      raw: '1126200001707100212345105',
+      tipoCobranca: '1',
+      carteira: '1',
+      nossoNumero: '26200001',
+      nossoNumeroDigit: '7',
+      cooperativa: '0710',
+      posto: '02',
+      beneficiario: '12345',
+      hasAmount: true,
+      campoLivreDigit: '5',
+    });
+  });
+
+  it('should fall back to the raw digits for unknown banks', () => {
+    expect(decodeCampoLivre('999', '1234567890123456789012345')).toEqual({
+      bank: 'unknown',
+      raw: '1234567890123456789012345',
+    });
+  });
+
+  it('should throw TypeError for a campo livre of the wrong length', () => {
+    expect(() => decodeCampoLivre('237', '123')).toThrow(TypeError);
+    expect(() => decodeCampoLivre('237', '123')).toThrow(
+      'decodeCampoLivre: expected a string of 25 digits, got "123"',
+    );
+  });
+
+  it('should throw TypeError for a non-digit campo livre', () => {
+    expect(() => decodeCampoLivre('237', '338128600000000000000003x')).toThrow(
+      TypeError,
+    );
+  });
+});
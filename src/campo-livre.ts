@@ -0,0 +1,345 @@
+/**
+ * Bank-specific decoding of the campo livre (barcode positions 20 to 44)
+ *
+ * @module CampoLivre
+ */
+
+/**
+ * Expected length of the campo livre
+ */
+const CAMPO_LIVRE_LENGTH = 25;
+
+/**
+ * Prefix of the Banco do Brasil campo livre for 7-digit convênios
+ */
+const BB_CONVENIO_7_PREFIX = '000000';
+
+/**
+ * Fields shared by every decoded campo livre
+ */
+interface CampoLivreBase {
+  /** The raw 25-digit campo livre */
+  raw: string;
+}
+
+/**
+ * Banco do Brasil (001) campo livre
+ *
+ * With 4- and 6-digit convênios the nosso número starts with the convênio and
+ * the campo livre also carries agência and conta. With 7-digit convênios the
+ * campo livre starts with six zeros and the 17-digit nosso número fills most
+ * of it.
+ */
+export interface BancoDoBrasilCampoLivre extends CampoLivreBase {
+  bank: 'banco-do-brasil';
+  /** Number of digits of the convênio */
+  convenioLength: 4 | 6 | 7;
+  /** Convênio (agreement) number */
+  convenio: string;
+  /** Nosso número, including the convênio (11 or 17 digits) */
+  nossoNumero: string;
+  /** Agência (4 digits), absent for 7-digit convênios */
+  agencia: string | null;
+  /** Conta (8 digits), absent for 7-digit convênios */
+  conta: string | null;
+  /** Carteira (2 digits) */
+  carteira: string;
+}
+
+/**
+ * Bradesco (237) campo livre
+ */
+export interface BradescoCampoLivre extends CampoLivreBase {
+  bank: 'bradesco';
+  /** Agência beneficiária (4 digits) */
+  agencia: string;
+  /** Carteira (2 digits) */
+  carteira: string;
+  /** Nosso número, without its check digit (11 digits) */
+  nossoNumero: string;
+  /** Conta do beneficiário (7 digits) */
+  conta: string;
+}
+
+/**
+ * Itaú (341) campo livre
+ */
+export interface ItauCampoLivre extends CampoLivreBase {
+  bank: 'itau';
+  /** Carteira (3 digits) */
+  carteira: string;
+  /** Nosso número (8 digits) */
+  nossoNumero: string;
+  /** DAC of agência/conta/carteira/nosso número */
+  nossoNumeroDigit: string;
+  /** Agência (4 digits) */
+  agencia: string;
+  /** Conta (5 digits) */
+  conta: string;
+  /** DAC of agência/conta */
+  contaDigit: string;
+}
+
+/**
+ * Caixa Econômica Federal (104) campo livre, SIGCB layout
+ */
+export interface CaixaCampoLivre extends CampoLivreBase {
+  bank: 'caixa';
+  /** Código do beneficiário (6 digits) */
+  beneficiario: string;
+  /** Check digit of the código do beneficiário */
+  beneficiarioDigit: string;
+  /** Modalidade de cobrança: 1 for registered, 2 for unregistered */
+  modalidade: string;
+  /** Emissor: 4 when the boleto is issued by the beneficiário */
+  emissao: string;
+  /** Nosso número: modalidade, emissão and the 15-digit sequence (17 digits) */
+  nossoNumero: string;
+  /** Check digit of the whole campo livre */
+  campoLivreDigit: string;
+}
+
+/**
+ * Santander (033) campo livre
+ */
+export interface SantanderCampoLivre extends CampoLivreBase {
+  bank: 'santander';
+  /** Código do beneficiário (7 digits) */
+  beneficiario: string;
+  /** Nosso número, without its check digit (12 digits) */
+  nossoNumero: string;
+  /** Check digit of the nosso número */
+  nossoNumeroDigit: string;
+  /** IOF rate, only used by insurance companies (usually 0) */
+  iof: string;
+  /** Carteira / modalidade (3 digits) */
+  carteira: string;
+}
+
+/**
+ * Sicoob (756) campo livre
+ */
+export interface SicoobCampoLivre extends CampoLivreBase {
+  bank: 'sicoob';
+  /** Carteira (1 digit) */
+  carteira: string;
+  /** Cooperativa (4 digits) */
+  agencia: string;
+  /** Modalidade (2 digits) */
+  modalidade: string;
+  /** Código do beneficiário (7 digits) */
+  beneficiario: string;
+  /** Nosso número, without its check digit (7 digits) */
+  nossoNumero: string;
+  /** Check digit of the nosso número */
+  nossoNumeroDigit: string;
+  /** Número da parcela (3 digits) */
+  parcela: string;
+}
+
+/**
+ * Sicredi (748) campo livre
+ */
+export interface SicrediCampoLivre extends CampoLivreBase {
+  bank: 'sicredi';
+  /** Tipo de cobrança (1 digit) */
+  tipoCobranca: string;
+  /** Carteira (1 digit) */
+  carteira: string;
+  /** Nosso número: year, byte and sequence, without its check digit (8 digits) */
+  nossoNumero: string;
+  /** Check digit of the nosso número */
+  nossoNumeroDigit: string;
+  /** Cooperativa de crédito (4 digits) */
+  cooperativa: string;
+  /** Posto da cooperativa (2 digits) */
+  posto: string;
+  /** Código do beneficiário (5 digits) */
+  beneficiario: string;
+  /** Whether the bank slip carries an amount (filler 1) */
+  hasAmount: boolean;
+  /** Check digit of the whole campo livre */
+  campoLivreDigit: string;
+}
+
+/**
+ * Campo livre of a bank whose layout is not known
+ */
+export interface UnknownCampoLivre extends CampoLivreBase {
+  bank: 'unknown';
+}
+
+/**
+ * A decoded campo livre, discriminated by its `bank` property
+ */
+export type CampoLivre =
+  | BancoDoBrasilCampoLivre
+  | BradescoCampoLivre
+  | ItauCampoLivre
+  | CaixaCampoLivre
+  | SantanderCampoLivre
+  | SicoobCampoLivre
+  | SicrediCampoLivre
+  | UnknownCampoLivre;
+
+/**
+ * Options for decoding the campo livre
+ */
+export interface CampoLivreOptions {
+  /**
+   * Length of the Banco do Brasil convênio. 7-digit convênios are detected by
+   * the leading zeros; otherwise 6 is assumed, since 4- and 6-digit layouts
+   * cannot be told apart from the digits alone.
+   */
+  convenioLength?: 4 | 6 | 7;
+}
+
+/**
+ * Decodes a Banco do Brasil campo livre
+ *
+ * @param raw - The 25-digit campo livre
+ * @param options - The decoding options
+ * @returns The decoded campo livre
+ */
+function decodeBancoDoBrasil(
+  raw: string,
+  options: CampoLivreOptions,
+): BancoDoBrasilCampoLivre {
+  const convenioLength =
+    options.convenioLength ?? (raw.startsWith(BB_CONVENIO_7_PREFIX) ? 7 : 6);
+
+  if (convenioLength === 7) {
+    return {
+      bank: 'banco-do-brasil',
+      raw,
+      convenioLength,
+      convenio: raw.substring(6, 13),
+      nossoNumero: raw.substring(6, 23),
+      agencia: null,
+      conta: null,
+      carteira: raw.substring(23, 25),
+    };
+  }
+
+  return {
+    bank: 'banco-do-brasil',
+    raw,
+    convenioLength,
+    convenio: raw.substring(0, convenioLength),
+    nossoNumero: raw.substring(0, 11),
+    agencia: raw.substring(11, 15),
+    conta: raw.substring(15, 23),
+    carteira: raw.substring(23, 25),
+  };
+}
+
+/**
+ * Decoders for each supported bank, by bank code
+ */
+const DECODERS: Record<
+  string,
+  (raw: string, options: CampoLivreOptions) => CampoLivre
+> = {
+  '001': decodeBancoDoBrasil,
+  '237': (raw) => ({
+    bank: 'bradesco',
+    raw,
+    agencia: raw.substring(0, 4),
+    carteira: raw.substring(4, 6),
+    nossoNumero: raw.substring(6, 17),
+    conta: raw.substring(17, 24),
+  }),
+  '341': (raw) => ({
+    bank: 'itau',
+    raw,
+    carteira: raw.substring(0, 3),
+    nossoNumero: raw.substring(3, 11),
+    nossoNumeroDigit: raw[11]!,
+    agencia: raw.substring(12, 16),
+    conta: raw.substring(16, 21),
+    contaDigit: raw[21]!,
+  }),
+  '104': (raw) => ({
+    bank: 'caixa',
+    raw,
+    beneficiario: raw.substring(0, 6),
+    beneficiarioDigit: raw[6]!,
+    modalidade: raw[10]!,
+    emissao: raw[14]!,
+    nossoNumero:
+      raw[10]! +
+      raw[14]! +
+      raw.substring(7, 10) +
+      raw.substring(11, 14) +
+      raw.substring(15, 24),
+    campoLivreDigit: raw[24]!,
+  }),
+  '033': (raw) => ({
+    bank: 'santander',
+    raw,
+    beneficiario: raw.substring(1, 8),
+    nossoNumero: raw.substring(8, 20),
+    nossoNumeroDigit: raw[20]!,
+    iof: raw[21]!,
+    carteira: raw.substring(22, 25),
+  }),
+  '756': (raw) => ({
+    bank: 'sicoob',
+    raw,
+    carteira: raw[0]!,
+    agencia: raw.substring(1, 5),
+    modalidade: raw.substring(5, 7),
+    beneficiario: raw.substring(7, 14),
+    nossoNumero: raw.substring(14, 21),
+    nossoNumeroDigit: raw[21]!,
+    parcela: raw.substring(22, 25),
+  }),
+  '748': (raw) => ({
+    bank: 'sicredi',
+    raw,
+    tipoCobranca: raw[0]!,
+    carteira: raw[1]!,
+    nossoNumero: raw.substring(2, 10),
+    nossoNumeroDigit: raw[10]!,
+    cooperativa: raw.substring(11, 15),
+    posto: raw.substring(15, 17),
+    beneficiario: raw.substring(17, 22),
+    hasAmount: raw[22] === '1',
+    campoLivreDigit: raw[24]!,
+  }),
+};
+
+/**
+ * Decodes the campo livre of a bank slip according to its bank's layout
+ *
+ * Banco do Brasil, Bradesco, Itaú, Caixa (SIGCB), Santander, Sicoob and
+ * Sicredi layouts are supported. Any other bank falls back to the raw digits.
+ *
+ * @param bankCode - The 3-digit bank code
+ * @param campoLivre - The 25-digit campo livre
+ * @param options - The decoding options
+ * @returns The decoded campo livre
+ * @throws {TypeError} If the campo livre does not have exactly 25 digits
+ *
+ * @example
+ * // Returns { bank: 'bradesco', agencia: '3381', carteira: '28', ... }
+ * decodeCampoLivre('237', '3381286000000000000000038');
+ */
+export function decodeCampoLivre(
+  bankCode: string,
+  campoLivre: string,
+  options: CampoLivreOptions = {},
+): CampoLivre {
+  if (!new RegExp(`^\\d{${CAMPO_LIVRE_LENGTH}}$`).test(campoLivre)) {
+    throw new TypeError(
+      `decodeCampoLivre: expected a string of ${CAMPO_LIVRE_LENGTH} digits, got "${campoLivre}"`,
+    );
+  }
+
+  const decoder = DECODERS[bankCode];
+  if (decoder === undefined) {
+    return { bank: 'unknown', raw: campoLivre };
+  }
+
+  return decoder(campoLivre, options);
+}
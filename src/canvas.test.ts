@@ -0,0 +1,111 @@
+/**
+ * Unit tests for canvas rendering module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { drawBarcode } from './canvas.js';
+import type { BarcodeCanvasContext } from './canvas.js';
+import { SVG } from './svg.js';
+import { encode } from './itf.js';
+
+/**
+ * A canvas context that records the rectangles filled on it
+ */
+function recordingContext(): BarcodeCanvasContext & {
+  rects: { fill: string; x: number; y: number; w: number; h: number }[];
+} {
+  return {
+    fillStyle: '',
+    rects: [],
+    fillRect(x: number, y: number, w: number, h: number) {
+      this.rects.push({ fill: String(this.fillStyle), x, y, w, h });
+    },
+  };
+}
+
+describe('drawBarcode', () => {
+  const data = new SVG(encode('0123'), {
+    narrowWidth: 4,
+    unit: 'px',
+    height: 100,
+    quietZone: 0,
+  }).toBarcodeData();
+
+  it('should fill one rectangle per stripe with its color', () => {
+    const context = recordingContext();
+    drawBarcode(context, data);
+    expect(context.rects.length).toBe(data.stripes.length);
+    expect(context.rects[0]).toEqual({
+      fill: '#000000',
+      x: 0,
+      y: 0,
+      w: 4,
+      h: 100,
+    });
+    expect(context.rects[1]!.fill).toBe('#ffffff');
+  });
+
+  it('should fill the quiet zones with the background color', () => {
+    const context = recordingContext();
+    const padded = new SVG(encode('0123'), { background: '#eeeeee' });
+    drawBarcode(context, padded.toBarcodeData(), { scale: 10, snap: false });
+    expect(context.rects[0]).toEqual({
+      fill: '#eeeeee',
+      x: 0,
+      y: 0,
+      w: padded.viewBoxWidth() * 10,
+      h: 130,
+    });
+    expect(context.rects[1]).toMatchObject({ fill: '#000000', x: 25 });
+  });
+
+  it('should position and scale the barcode', () => {
+    const context = recordingContext();
+    drawBarcode(context, data, { x: 10, y: 5, scale: 0.5, height: 30 });
+    expect(context.rects[0]).toMatchObject({ x: 10, y: 5, w: 2, h: 30 });
+    const last = context.rects[context.rects.length - 1]!;
+    expect(last.x + last.w).toBe(10 + data.viewBoxWidth * 0.5);
+  });
+
+  it('should snap the stripe edges to whole device pixels', () => {
+    const context = recordingContext();
+    drawBarcode(context, data, { x: 0.3, scale: 0.3, pixelRatio: 2 });
+    for (const rect of context.rects) {
+      expect(Number.isInteger(rect.x * 2)).toBe(true);
+      expect(Number.isInteger((rect.x + rect.w) * 2)).toBe(true);
+      expect(rect.w).toBeGreaterThanOrEqual(0.5);
+    }
+    // Neighbouring stripes share their edges, leaving no gaps
+    for (let i = 1; i < context.rects.length; i += 1) {
+      const previous = context.rects[i - 1]!;
+      expect(context.rects[i]!.x).toBeCloseTo(previous.x + previous.w);
+    }
+  });
+
+  it('should keep fractional edges when snapping is disabled', () => {
+    const context = recordingContext();
+    drawBarcode(context, data, { x: 0.3, scale: 0.3, snap: false });
+    expect(context.rects[0]).toMatchObject({ x: 0.3 });
+    expect(context.rects[0]!.w).toBeCloseTo(1.2);
+  });
+
+  it.each([
+    [
+      { scale: 0 },
+      'drawBarcode: expected scale to be a positive number, got 0',
+    ],
+    [
+      { pixelRatio: NaN },
+      'drawBarcode: expected pixelRatio to be a positive number, got NaN',
+    ],
+    [
+      { height: -10 },
+      'drawBarcode: expected height to be a positive number, got -10',
+    ],
+  ])('should reject %o', (options, message) => {
+    const context = recordingContext();
+    expect(() => drawBarcode(context, data, options)).toThrow(RangeError);
+    expect(() => drawBarcode(context, data, options)).toThrow(message);
+    expect(context.rects).toEqual([]);
+  });
+});
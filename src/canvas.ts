@@ -0,0 +1,121 @@
+/**
+ * Canvas rendering for barcode stripes, for pages and web workers alike
+ *
+ * @module Canvas
+ */
+
+import type { BarcodeData, SVGOptions } from './svg.js';
+import type { EncodeOptions } from './itf.js';
+
+/**
+ * The parts of a 2D canvas context used to draw a barcode
+ *
+ * Both `CanvasRenderingContext2D` and `OffscreenCanvasRenderingContext2D`
+ * satisfy it, so barcodes can be drawn in web workers, where no `document`
+ * exists.
+ */
+export type BarcodeCanvasContext = Pick<
+  CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  'fillStyle' | 'fillRect'
+>;
+
+/**
+ * Options for drawing a barcode on a canvas
+ */
+export interface CanvasOptions {
+  /** Left edge of the barcode, in context units (default: 0) */
+  x?: number;
+  /** Top edge of the barcode, in context units (default: 0) */
+  y?: number;
+  /** Context units per barcode view box unit (default: 1) */
+  scale?: number;
+  /** Height of the barcode, in context units (default: the stripe height times the scale) */
+  height?: number;
+  /** Device pixels per context unit, such as `devicePixelRatio` on a context scaled by it (default: 1) */
+  pixelRatio?: number;
+  /** Whether to align the stripe edges to whole device pixels (default: true) */
+  snap?: boolean;
+}
+
+/**
+ * Options for encoding a barcode and drawing it on a canvas
+ *
+ * The barcode is laid out in context units, as CSS pixels, before `scale`.
+ */
+export interface BarcodeCanvasOptions
+  extends
+    EncodeOptions,
+    CanvasOptions,
+    Pick<SVGOptions, 'quietZone' | 'foreground' | 'background'> {
+  /** Width of a narrow bar, in context units before `scale` (default: 4) */
+  narrowWidth?: number;
+}
+
+/**
+ * Draws barcode stripes on a 2D canvas context
+ *
+ * Each stripe is filled with its own color and the quiet zones with the
+ * background color, so the barcode covers whatever was drawn underneath.
+ * With `snap` enabled, every edge is rounded to the nearest device pixel,
+ * which keeps the bars crisp instead of blending them into the spaces with
+ * antialiased edges; a stripe never shrinks below one device pixel.
+ *
+ * @param context - The canvas context to draw on
+ * @param data - The barcode data, as returned by {@link SVG.toBarcodeData}
+ * @param options - The position, scale and pixel snapping options
+ * @throws {RangeError} If the scale, height or pixel ratio is not a positive number
+ *
+ * @example
+ * const canvas = new OffscreenCanvas(800, 200);
+ * const context = canvas.getContext('2d')!;
+ * const data = boleto.barcodeData({ narrowWidth: 4, unit: 'px' });
+ * drawBarcode(context, data, { x: 20, y: 20, scale: 0.5 });
+ */
+export function drawBarcode(
+  context: BarcodeCanvasContext,
+  data: BarcodeData,
+  options: CanvasOptions = {},
+): void {
+  const { x = 0, y = 0, scale = 1, pixelRatio = 1, snap = true } = options;
+
+  for (const [name, value] of Object.entries({
+    scale,
+    pixelRatio,
+    height: options.height ?? 1,
+  })) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new RangeError(
+        `drawBarcode: expected ${name} to be a positive number, got ${value}`,
+      );
+    }
+  }
+
+  const align = (value: number): number =>
+    snap ? Math.round(value * pixelRatio) / pixelRatio : value;
+  const top = align(y);
+
+  // The stripes start after the left quiet zone, if any, so the background
+  // must cover the quiet zones as well
+  if ((data.stripes[0]?.x ?? 0) > 0) {
+    const bottom = align(y + (options.height ?? data.viewBoxHeight * scale));
+    context.fillStyle = data.background;
+    context.fillRect(
+      align(x),
+      top,
+      align(x + data.viewBoxWidth * scale) - align(x),
+      bottom - top,
+    );
+  }
+
+  for (const stripe of data.stripes) {
+    const left = align(x + stripe.x * scale);
+    const right = Math.max(
+      align(x + (stripe.x + stripe.width) * scale),
+      snap ? left + 1 / pixelRatio : left,
+    );
+    const bottom = align(y + (options.height ?? stripe.height * scale));
+
+    context.fillStyle = stripe.color;
+    context.fillRect(left, top, right - left, bottom - top);
+  }
+}
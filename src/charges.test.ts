@@ -0,0 +1,275 @@
+/**
+ * Unit tests for late-payment charges module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateCharges } from './charges.js';
+import type { ChargeRules } from './charges.js';
+import { Boleto } from './boleto.js';
+
+// R$ 123,45 due 2020-12-11
+const VALID_BOLETO = '23793.38128 86000.000009 00000.000380 1 84660000012345';
+
+const RULES: ChargeRules = {
+  fine: { type: 'percent', value: 2 },
+  interest: { type: 'monthly', percent: 1 },
+};
+
+/**
+ * Returns an instant on a day in São Paulo time
+ */
+function paidOn(date: string, time = '12:00'): Date {
+  return new Date(`${date}T${time}:00-03:00`);
+}
+
+/**
+ * Reads the cents of every item of a breakdown
+ */
+function cents(breakdown: ReturnType<typeof calculateCharges>) {
+  return {
+    discount: breakdown.discount.cents,
+    fine: breakdown.fine.cents,
+    interest: breakdown.interest.cents,
+    total: breakdown.total.cents,
+  };
+}
+
+describe('calculateCharges', () => {
+  const boleto = new Boleto(VALID_BOLETO);
+
+  it('should charge nothing extra on the due date', () => {
+    const result = calculateCharges(
+      boleto,
+      RULES,
+      paidOn('2020-12-11', '23:00'),
+    );
+    expect(result.daysLate).toBe(0);
+    expect(cents(result)).toEqual({
+      discount: 0n,
+      fine: 0n,
+      interest: 0n,
+      total: 12345n,
+    });
+  });
+
+  it('should charge the fine and pro-rata monthly interest when late', () => {
+    const result = calculateCharges(boleto, RULES, paidOn('2020-12-21'));
+    // 2% of 12345 = 246.9; 1% a month for 10 days = 41.15
+    expect(result.daysLate).toBe(10);
+    expect(cents(result)).toEqual({
+      discount: 0n,
+      fine: 247n,
+      interest: 41n,
+      total: 12633n,
+    });
+    expect(result.total.toString()).toBe('R$ 126,33');
+  });
+
+  it('should charge a fixed fine and daily interest', () => {
+    const result = calculateCharges(
+      boleto,
+      {
+        fine: { type: 'fixed', amountInCents: 500 },
+        interest: { type: 'daily', percent: 0.033 },
+      },
+      paidOn('2020-12-15'),
+    );
+    // 0.033% of 12345 for 4 days = 16.29
+    expect(cents(result)).toMatchObject({ fine: 500n, interest: 16n });
+  });
+
+  it('should charge a fixed amount of interest a day', () => {
+    const result = calculateCharges(
+      boleto,
+      { interest: { type: 'fixed', amountInCentsPerDay: 7n } },
+      paidOn('2020-12-16'),
+    );
+    expect(result.interest.cents).toBe(35n);
+  });
+
+  it('should round half up to the cent', () => {
+    // 0.5% of 12345 = 61.725
+    const result = calculateCharges(
+      boleto,
+      { fine: { type: 'percent', value: 0.5 } },
+      paidOn('2020-12-15'),
+    );
+    expect(result.fine.cents).toBe(62n);
+  });
+
+  it('should take the payment date in São Paulo time', () => {
+    // 22:00 on the due date in São Paulo, already the next day in UTC
+    const result = calculateCharges(
+      boleto,
+      RULES,
+      new Date('2020-12-12T01:00:00Z'),
+    );
+    expect(result.daysLate).toBe(0);
+    expect(result.total.cents).toBe(12345n);
+  });
+
+  it('should not charge when paid on the next business day', () => {
+    // Due on Saturday 2020-12-12, payable until Monday 2020-12-14
+    const weekend = Boleto.fromParts({
+      bankCode: '237',
+      dueDate: new Date(2020, 11, 12),
+      amountInCents: 12345,
+      campoLivre: '3381286000000000000000038',
+    });
+
+    const onTime = calculateCharges(weekend, RULES, paidOn('2020-12-14'));
+    expect(onTime.daysLate).toBe(0);
+    expect(onTime.total.cents).toBe(12345n);
+
+    // Interest counts from the original due date
+    const late = calculateCharges(weekend, RULES, paidOn('2020-12-15'));
+    expect(late.daysLate).toBe(3);
+    expect(late.interest.cents).toBe(12n);
+  });
+
+  it('should observe the holidays given in the options', () => {
+    const holidays = [
+      () => [
+        { date: { year: 2020, month: 12, day: 11 }, name: 'Feriado municipal' },
+      ],
+    ];
+    const paymentDate = paidOn('2020-12-14');
+
+    expect(
+      calculateCharges(boleto, RULES, paymentDate, { holidays }).total.cents,
+    ).toBe(12345n);
+    expect(calculateCharges(boleto, RULES, paymentDate).daysLate).toBe(3);
+  });
+
+  it('should not charge during the grace period', () => {
+    const rules = { ...RULES, gracePeriodDays: 3 };
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-12-14')).total.cents,
+    ).toBe(12345n);
+
+    // After the grace period, interest counts from the due date
+    const result = calculateCharges(boleto, rules, paidOn('2020-12-15'));
+    expect(result.daysLate).toBe(4);
+    expect(result.interest.cents).toBe(16n);
+  });
+
+  it('should apply the discount with the earliest date that has not passed', () => {
+    const rules: ChargeRules = {
+      ...RULES,
+      discounts: [
+        {
+          type: 'fixed',
+          amountInCents: 200,
+          until: { year: 2020, month: 12, day: 11 },
+        },
+        {
+          type: 'percent',
+          value: 10,
+          until: { year: 2020, month: 12, day: 1 },
+        },
+      ],
+    };
+
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-11-30')).discount.cents,
+    ).toBe(1235n);
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-12-01', '18:00')).discount
+        .cents,
+    ).toBe(1235n);
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-12-02')).discount.cents,
+    ).toBe(200n);
+
+    const late = calculateCharges(boleto, rules, paidOn('2020-12-15'));
+    expect(late.discount.cents).toBe(0n);
+    expect(late.fine.cents).toBe(247n);
+  });
+
+  it('should read the discount dates in São Paulo time', () => {
+    // 23:00 on 2020-12-01 in São Paulo, already the 2nd in UTC
+    const rules: ChargeRules = {
+      discounts: [
+        { type: 'percent', value: 10, until: new Date('2020-12-02T02:00:00Z') },
+      ],
+    };
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-12-01')).discount.cents,
+    ).toBe(1235n);
+    expect(
+      calculateCharges(boleto, rules, paidOn('2020-12-02')).discount.cents,
+    ).toBe(0n);
+  });
+
+  it('should cap the discount at the nominal amount', () => {
+    const result = calculateCharges(
+      boleto,
+      {
+        discounts: [
+          {
+            type: 'fixed',
+            amountInCents: 99999,
+            until: { year: 2020, month: 12, day: 11 },
+          },
+        ],
+      },
+      paidOn('2020-12-01'),
+    );
+    expect(result.discount.cents).toBe(12345n);
+    expect(result.total.cents).toBe(0n);
+  });
+
+  it('should return the amounts in the currency of the bank slip', () => {
+    const result = calculateCharges(boleto, RULES, paidOn('2020-12-21'));
+    expect(result.nominal.equals(boleto.money())).toBe(true);
+    expect(result.fine.currency).toBe(boleto.currency());
+  });
+
+  it.each<[ChargeRules, string]>([
+    [
+      { fine: { type: 'percent', value: -1 } },
+      'calculateCharges: expected fine.value to be a non-negative number, got -1',
+    ],
+    [
+      { fine: { type: 'fixed', amountInCents: 1.5 } },
+      'calculateCharges: expected fine.amountInCents to be a non-negative integer number of cents, got 1.5',
+    ],
+    [
+      { interest: { type: 'monthly', percent: NaN } },
+      'calculateCharges: expected interest.percent to be a non-negative number, got NaN',
+    ],
+    [
+      {
+        discounts: [
+          {
+            type: 'fixed',
+            amountInCents: -1n,
+            until: { year: 2020, month: 1, day: 1 },
+          },
+        ],
+      },
+      'calculateCharges: expected discount.amountInCents to be a non-negative integer number of cents, got -1',
+    ],
+    [
+      {
+        discounts: [{ type: 'percent', value: 1, until: new Date(Number.NaN) }],
+      },
+      'calculateCharges: expected discount.until to be a valid date, got Invalid Date',
+    ],
+    [
+      { gracePeriodDays: 1.5 },
+      'calculateCharges: expected gracePeriodDays to be a non-negative integer, got 1.5',
+    ],
+  ])('should throw RangeError for invalid rules', (rules, message) => {
+    // Rules are validated even when they do not apply on the payment date
+    const onTime = paidOn('2020-12-01');
+    expect(() => calculateCharges(boleto, rules, onTime)).toThrow(RangeError);
+    expect(() => calculateCharges(boleto, rules, onTime)).toThrow(message);
+  });
+
+  it('should throw RangeError for an invalid payment date', () => {
+    expect(() => calculateCharges(boleto, RULES, new Date(NaN))).toThrow(
+      'calculateCharges: expected a valid payment date, got Invalid Date',
+    );
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Late-payment charges and early-payment discounts of bank slips
+ *
+ * @module Charges
+ */
+
+import type { Boleto } from './boleto.js';
+import { calendarDateIn, daysBetween } from './calendar.js';
+import type { CalendarDate, CalendarOptions } from './calendar.js';
+import { Money } from './money.js';
+
+/**
+ * Days in a month for pro-rata monthly interest, by the commercial convention
+ */
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Scale of percentages in exact arithmetic, allowing up to six decimals
+ * (e.g. 0.033% a day)
+ */
+const PERCENT_SCALE = 1000000;
+
+/**
+ * A late fine (multa), charged once when the bank slip is paid late
+ *
+ * - `percent`: a percentage of the nominal amount, such as 2
+ * - `fixed`: a fixed amount in cents
+ */
+export type FineRule =
+  | { type: 'percent'; value: number }
+  | { type: 'fixed'; amountInCents: number | bigint };
+
+/**
+ * Late-payment interest (juros de mora), simple and pro-rata by calendar day
+ *
+ * - `monthly`: a percentage of the nominal amount a month, charged as 1/30 a day
+ * - `daily`: a percentage of the nominal amount a day
+ * - `fixed`: a fixed amount in cents a day
+ */
+export type InterestRule =
+  | { type: 'monthly'; percent: number }
+  | { type: 'daily'; percent: number }
+  | { type: 'fixed'; amountInCentsPerDay: number | bigint };
+
+/**
+ * An early-payment discount (desconto), valid up to and including a date
+ */
+export type DiscountRule = (
+  | { type: 'percent'; value: number }
+  | { type: 'fixed'; amountInCents: number | bigint }
+) & {
+  /** The last day the discount applies, a `Date` read in São Paulo time */
+  until: Date | CalendarDate;
+};
+
+/**
+ * The charge rules printed on a bank slip or agreed with the payee
+ */
+export interface ChargeRules {
+  /** The late fine (default: none) */
+  fine?: FineRule;
+  /** The late-payment interest (default: none) */
+  interest?: InterestRule;
+  /** The early-payment discounts; the one with the earliest date that has not passed applies (default: none) */
+  discounts?: readonly DiscountRule[];
+  /** Days after the due date during which no fine or interest is charged (default: 0) */
+  gracePeriodDays?: number;
+}
+
+/**
+ * The itemized amount owed on a payment date
+ */
+export interface ChargeBreakdown {
+  /** The nominal amount of the bank slip */
+  nominal: Money;
+  /** The early-payment discount, zero if none applies */
+  discount: Money;
+  /** The late fine, zero if paid on time */
+  fine: Money;
+  /** The late-payment interest, zero if paid on time */
+  interest: Money;
+  /** The amount owed: nominal, minus discount, plus fine and interest */
+  total: Money;
+  /** Calendar days between the due date and the payment date, zero if paid on or before the effective due date */
+  daysLate: number;
+}
+
+/**
+ * Converts an amount in cents of a rule into a bigint
+ *
+ * @param cents - The amount in cents
+ * @param name - The name of the rule field, for the error message
+ * @returns The amount as a bigint
+ * @throws {RangeError} If the amount is negative or not an integer
+ */
+function toCents(cents: number | bigint, name: string): bigint {
+  if (
+    (typeof cents === 'number' && !Number.isSafeInteger(cents)) ||
+    cents < 0
+  ) {
+    throw new RangeError(
+      `calculateCharges: expected ${name} to be a non-negative integer number of cents, got ${cents}`,
+    );
+  }
+  return BigInt(cents);
+}
+
+/**
+ * Reads the last day of a discount, in São Paulo time like the payment date
+ *
+ * @param until - The last day the discount applies
+ * @returns The calendar date
+ * @throws {RangeError} If the date is invalid
+ */
+function toDiscountDay(until: Date | CalendarDate): CalendarDate {
+  if (!(until instanceof Date)) return until;
+  if (Number.isNaN(until.getTime())) {
+    throw new RangeError(
+      'calculateCharges: expected discount.until to be a valid date, got Invalid Date',
+    );
+  }
+  return calendarDateIn(until);
+}
+
+/**
+ * Converts a percentage of a rule into exact millionths of a percent
+ *
+ * @param percent - The percentage
+ * @param name - The name of the rule field, for the error message
+ * @returns The scaled percentage
+ * @throws {RangeError} If the percentage is negative or not a finite number
+ */
+function toScaledPercent(percent: number, name: string): bigint {
+  if (!Number.isFinite(percent) || percent < 0) {
+    throw new RangeError(
+      `calculateCharges: expected ${name} to be a non-negative number, got ${percent}`,
+    );
+  }
+  return BigInt(Math.round(percent * PERCENT_SCALE));
+}
+
+/**
+ * Divides two non-negative bigints, rounding half up to the nearest cent
+ *
+ * @param dividend - The dividend
+ * @param divisor - The divisor
+ * @returns The rounded quotient
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  return (2n * dividend + divisor) / (2n * divisor);
+}
+
+/**
+ * Calculates a percentage of an amount, rounded to the nearest cent
+ *
+ * @param cents - The amount in cents
+ * @param percent - The percentage, in millionths of a percent
+ * @param days - The number of days it applies for
+ * @param daysPerPeriod - The number of days the percentage is for
+ * @returns The rounded amount in cents
+ */
+function percentOf(
+  cents: bigint,
+  percent: bigint,
+  days = 1n,
+  daysPerPeriod = 1n,
+): bigint {
+  return divideRounded(
+    cents * percent * days,
+    100n * BigInt(PERCENT_SCALE) * daysPerPeriod,
+  );
+}
+
+/**
+ * Calculates the amount owed on a bank slip on a payment date
+ *
+ * A bank slip due on a weekend or a holiday can be paid on the next business
+ * day without charges (see {@link Boleto.effectiveDueDate}). When paid after
+ * that day and after the grace period, the fine is charged once and the
+ * interest for every calendar day since the original due date. Monthly
+ * interest is simple and pro-rata, at 1/30 of the monthly rate a day. When
+ * paid on or before a discount date, the discount with the earliest such date
+ * applies, capped at the nominal amount. Every item is calculated on the
+ * nominal amount in exact integer arithmetic and rounded half up to the cent.
+ *
+ * The payment date is taken in São Paulo time, where due dates are set,
+ * whatever the host's time zone. Discount dates are taken by their local
+ * calendar day, so that `new Date(2025, 1, 22)` is the 22nd of February 2025.
+ *
+ * @param boleto - The bank slip
+ * @param rules - The fine, interest, discount and grace period rules
+ * @param paymentDate - The date of the payment (default: now)
+ * @param options - Additional holidays, such as those of the place of payment
+ * @returns The itemized amounts and the total, in the bank slip's currency
+ * @throws {RangeError} If the payment date is invalid, or a rule amount,
+ *                      percentage or grace period is negative or not a number
+ *
+ * @example
+ * // R$ 123,45 due 2020-12-11, paid 10 days late
+ * const charges = calculateCharges(
+ *   boleto,
+ *   {
+ *     fine: { type: 'percent', value: 2 },
+ *     interest: { type: 'monthly', percent: 1 },
+ *   },
+ *   new Date(2020, 11, 21),
+ * );
+ * charges.fine.toString(); // 'R$ 2,47'
+ * charges.interest.toString(); // 'R$ 0,41'
+ * charges.total.toString(); // 'R$ 126,33'
+ */
+export function calculateCharges(
+  boleto: Boleto,
+  rules: ChargeRules,
+  paymentDate: Date = new Date(),
+  options?: CalendarOptions,
+): ChargeBreakdown {
+  if (Number.isNaN(paymentDate.getTime())) {
+    throw new RangeError(
+      'calculateCharges: expected a valid payment date, got Invalid Date',
+    );
+  }
+  const { gracePeriodDays = 0 } = rules;
+  if (!Number.isInteger(gracePeriodDays) || gracePeriodDays < 0) {
+    throw new RangeError(
+      `calculateCharges: expected gracePeriodDays to be a non-negative integer, got ${gracePeriodDays}`,
+    );
+  }
+
+  const nominal = boleto.money();
+  const cents = nominal.cents;
+  const paymentDay = calendarDateIn(paymentDate);
+  const daysLate = boleto.isOverdue(paymentDate, options)
+    ? daysBetween(boleto.dueDate(paymentDate), paymentDay)
+    : 0;
+  const late = daysLate > gracePeriodDays;
+
+  // Every rule is validated, whether it applies on the payment date or not
+  let fine = 0n;
+  if (rules.fine) {
+    fine =
+      rules.fine.type === 'percent'
+        ? percentOf(cents, toScaledPercent(rules.fine.value, 'fine.value'))
+        : toCents(rules.fine.amountInCents, 'fine.amountInCents');
+  }
+
+  let interest = 0n;
+  if (rules.interest) {
+    const days = BigInt(daysLate);
+    const rule = rules.interest;
+    if (rule.type === 'fixed') {
+      interest =
+        toCents(rule.amountInCentsPerDay, 'interest.amountInCentsPerDay') *
+        days;
+    } else {
+      const percent = toScaledPercent(rule.percent, 'interest.percent');
+      interest =
+        rule.type === 'monthly'
+          ? percentOf(cents, percent, days, BigInt(DAYS_PER_MONTH))
+          : percentOf(cents, percent, days);
+    }
+  }
+
+  const discounts = (rules.discounts ?? [])
+    .map((rule): [number, bigint] => [
+      daysBetween(paymentDay, toDiscountDay(rule.until)),
+      rule.type === 'percent'
+        ? percentOf(cents, toScaledPercent(rule.value, 'discount.value'))
+        : toCents(rule.amountInCents, 'discount.amountInCents'),
+    ])
+    .filter(([daysLeft]) => daysLeft >= 0)
+    .sort(([a], [b]) => a - b);
+  // A discount never makes the amount owed negative
+  const offered = discounts[0]?.[1] ?? 0n;
+  const discount = offered > cents ? cents : offered;
+
+  const money = (value: bigint): Money => new Money(value, nominal.currency);
+  return {
+    nominal,
+    discount: money(discount),
+    fine: money(late ? fine : 0n),
+    interest: money(late ? interest : 0n),
+    total: money(cents - discount + (late ? fine + interest : 0n)),
+    daysLate,
+  };
+}
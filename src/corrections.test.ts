@@ -0,0 +1,70 @@
+/**
+ * Unit tests for corrections module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { suggestCorrections } from './corrections.js';
+import { Boleto } from './boleto.js';
+
+const VALID_BOLETO = '23793.38128 86000.000009 00000.000380 1 84660000012345';
+const VALID_BOLETO_CLEAN = '23793381288600000000900000000380184660000012345';
+
+describe('suggestCorrections', () => {
+  it('should undo a swap of two neighbouring digits', () => {
+    const corrections = suggestCorrections(
+      '23793.38128 68000.000009 00000.000380 1 84660000012345',
+    );
+    expect(corrections[0]).toMatchObject({
+      bankSlipNumber: VALID_BOLETO_CLEAN,
+      kind: 'transposition',
+      positions: [10, 11],
+    });
+    expect(corrections[0]!.boleto).toBeInstanceOf(Boleto);
+  });
+
+  it('should undo a single mistyped digit within a field', () => {
+    const corrections = suggestCorrections(
+      '23793.38128 86000.000009 00000.050380 1 84660000012345',
+    );
+    expect(corrections).toContainEqual(
+      expect.objectContaining({
+        bankSlipNumber: VALID_BOLETO_CLEAN,
+        kind: 'substitution',
+        positions: [27],
+      }),
+    );
+  });
+
+  it('should only return candidates whose check digits all match', () => {
+    const corrections = suggestCorrections(
+      '23793.38128 86000.000009 00000.000380 1 84660000012355',
+    );
+    expect(corrections.length).toBeGreaterThan(1);
+    for (const correction of corrections) {
+      expect(Boleto.validate(correction.bankSlipNumber)).toEqual([]);
+    }
+  });
+
+  it('should rank transpositions before substitutions', () => {
+    const kinds = suggestCorrections(
+      '23793.38128 86000.000009 00000.000380 1 84660000021345',
+    ).map((correction) => correction.kind);
+    expect(kinds[0]).toBe('transposition');
+    expect(kinds.lastIndexOf('transposition')).toBeLessThan(
+      kinds.indexOf('substitution'),
+    );
+  });
+
+  it('should honour the limit', () => {
+    const input = '23793.38128 86000.000009 00000.000380 1 84660000012355';
+    expect(suggestCorrections(input, { limit: 3 })).toHaveLength(3);
+  });
+
+  it('should return nothing for a valid bank slip number', () => {
+    expect(suggestCorrections(VALID_BOLETO)).toEqual([]);
+  });
+
+  it('should return nothing for a number of the wrong length', () => {
+    expect(suggestCorrections(VALID_BOLETO_CLEAN.slice(1))).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Typo recovery for bank slip numbers, driven by their check digits
+ *
+ * @module Corrections
+ */
+
+import { Boleto } from './boleto.js';
+
+/**
+ * Expected length of a valid bank slip number
+ */
+const BANK_SLIP_NUMBER_LENGTH = 47;
+
+/**
+ * The kind of typo a correction undoes
+ *
+ * - `transposition`: two neighbouring digits were swapped
+ * - `substitution`: a single digit was mistyped
+ */
+export type CorrectionKind = 'transposition' | 'substitution';
+
+/**
+ * A valid bank slip number that differs from the input by a single typo
+ */
+export interface Correction {
+  /** The corrected bank slip number (digits only) */
+  bankSlipNumber: string;
+  /** The Boleto for the corrected bank slip number */
+  boleto: Boleto;
+  /** The kind of typo the correction undoes */
+  kind: CorrectionKind;
+  /** Indexes (0-based) of the changed digits within the 47 digits */
+  positions: number[];
+}
+
+/**
+ * Options for suggesting corrections
+ */
+export interface CorrectionOptions {
+  /** Maximum number of corrections to return (default: all) */
+  limit?: number;
+}
+
+/**
+ * Suggests valid bank slip numbers for a mistyped one
+ *
+ * Tries every single-digit substitution and every swap of two neighbouring
+ * digits, and keeps the candidates whose four check digits (the three field
+ * check digits and the general check digit) are all consistent. Swaps are
+ * ranked first, since a swap that happens to satisfy every check digit is
+ * far less likely to be a coincidence; candidates of the same kind are
+ * ranked by position.
+ *
+ * Typos within the first three fields are caught by two check digits and
+ * usually have a single candidate. The last 15 digits are only covered by
+ * the general check digit, so a typo there typically has several candidates.
+ *
+ * @param input - The bank slip number, possibly formatted (non-digit characters are stripped)
+ * @param options - The correction options
+ * @returns The corrections found, empty if the input has no 47 digits or is already valid
+ *
+ * @example
+ * // Returns [{ kind: 'transposition', positions: [10, 11], ... }]
+ * suggestCorrections('23793.38128 68000.000009 00000.000380 1 84660000012345');
+ */
+export function suggestCorrections(
+  input: string,
+  options: CorrectionOptions = {},
+): Correction[] {
+  const digits = input.replace(/[^\d]/g, '');
+  if (
+    digits.length !== BANK_SLIP_NUMBER_LENGTH ||
+    Boleto.safeParse(digits).success
+  ) {
+    return [];
+  }
+
+  const corrections: Correction[] = [];
+  const tryCandidate = (
+    candidate: string,
+    kind: CorrectionKind,
+    positions: number[],
+  ): void => {
+    const result = Boleto.safeParse(candidate);
+    if (result.success) {
+      corrections.push({
+        bankSlipNumber: candidate,
+        boleto: result.boleto,
+        kind,
+        positions,
+      });
+    }
+  };
+
+  for (let i = 0; i < digits.length - 1; i += 1) {
+    if (digits[i] === digits[i + 1]) continue;
+    tryCandidate(
+      digits.slice(0, i) + digits[i + 1]! + digits[i]! + digits.slice(i + 2),
+      'transposition',
+      [i, i + 1],
+    );
+  }
+
+  for (let i = 0; i < digits.length; i += 1) {
+    for (let digit = 0; digit <= 9; digit += 1) {
+      if (digits[i] === digit.toString()) continue;
+      tryCandidate(
+        digits.slice(0, i) + digit + digits.slice(i + 1),
+        'substitution',
+        [i],
+      );
+    }
+  }
+
+  return corrections.slice(0, options.limit);
+}
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for currency registry module
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  BRL_CURRENCY,
+  UNKNOWN_CURRENCY,
+  currencyByCode,
+  formatAmount,
+  registerCurrency,
+  sameCurrency,
+} from './currency.js';
+import type { Currency } from './currency.js';
+
+describe('currencyByCode', () => {
+  it('should return the Brazilian Real for code 9', () => {
+    expect(currencyByCode('9')).toBe(BRL_CURRENCY);
+    expect(BRL_CURRENCY).toEqual({ code: 'BRL', symbol: 'R$', decimal: ',' });
+  });
+
+  it('should return an unspecified currency for code 0', () => {
+    expect(currencyByCode('0')).toEqual({
+      code: 'XXX',
+      symbol: '¤',
+      decimal: ',',
+    });
+  });
+
+  it.each(['1', '5', '8', ''])(
+    'should return the unknown currency for code "%s"',
+    (code) => {
+      expect(currencyByCode(code)).toBe(UNKNOWN_CURRENCY);
+    },
+  );
+});
+
+describe('registerCurrency', () => {
+  const other = currencyByCode('0');
+
+  afterEach(() => {
+    registerCurrency('0', other);
+  });
+
+  it('should replace the currency of a code', () => {
+    registerCurrency('0', { code: 'USD', symbol: 'US$', decimal: '.' });
+    expect(currencyByCode('0')).toEqual({
+      code: 'USD',
+      symbol: 'US$',
+      decimal: '.',
+    });
+  });
+
+  it('should store a frozen copy', () => {
+    const euro = { code: 'EUR', symbol: '€', decimal: ',' };
+    registerCurrency('0', euro);
+    euro.symbol = 'EUR';
+    expect(currencyByCode('0').symbol).toBe('€');
+    expect(Object.isFrozen(currencyByCode('0'))).toBe(true);
+  });
+
+  it('should throw TypeError for a code that is not a single digit', () => {
+    expect(() => registerCurrency('10', BRL_CURRENCY)).toThrow(TypeError);
+    expect(() => registerCurrency('x', BRL_CURRENCY)).toThrow(
+      'registerCurrency: expected a 1-digit currency code, got "x"',
+    );
+  });
+
+  it('should throw TypeError for a code that is not 3 capital letters', () => {
+    expect(() =>
+      registerCurrency('0', { code: 'usd', symbol: 'US$', decimal: '.' }),
+    ).toThrow(
+      'registerCurrency: expected a 3-letter ISO 4217 currency code, got "usd"',
+    );
+    expect(() =>
+      registerCurrency('0', { code: 'US', symbol: 'US$', decimal: '.' }),
+    ).toThrow(TypeError);
+  });
+
+  it('should throw TypeError for a symbol that is not a string', () => {
+    const currency = { code: 'USD', symbol: 1, decimal: '.' };
+    expect(() =>
+      registerCurrency('0', currency as unknown as Currency),
+    ).toThrow(
+      'registerCurrency: expected the currency symbol to be a string, got number',
+    );
+  });
+
+  it('should throw TypeError for a decimal separator that is not one character', () => {
+    expect(() =>
+      registerCurrency('0', { code: 'USD', symbol: 'US$', decimal: '' }),
+    ).toThrow(
+      'registerCurrency: expected a 1-character decimal separator, got ""',
+    );
+    expect(() =>
+      registerCurrency('0', { code: 'USD', symbol: 'US$', decimal: '.,' }),
+    ).toThrow(TypeError);
+  });
+
+  it('should keep the registered currency after an invalid one', () => {
+    expect(() =>
+      registerCurrency('0', { code: 'usd', symbol: 'US$', decimal: '.' }),
+    ).toThrow(TypeError);
+    expect(currencyByCode('0')).toEqual(other);
+  });
+});
+
+describe('sameCurrency', () => {
+  it('should compare the code, symbol and decimal separator', () => {
+    expect(sameCurrency(BRL_CURRENCY, { ...BRL_CURRENCY })).toBe(true);
+    expect(sameCurrency(currencyByCode('0'), UNKNOWN_CURRENCY)).toBe(false);
+    expect(sameCurrency(BRL_CURRENCY, { ...BRL_CURRENCY, decimal: '.' })).toBe(
+      false,
+    );
+  });
+});
+
+describe('formatAmount', () => {
+  it('should put the symbol before the amount', () => {
+    expect(formatAmount('123.45', BRL_CURRENCY)).toBe('R$ 123,45');
+  });
+
+  it('should use the decimal separator of the currency', () => {
+    expect(
+      formatAmount('123.45', { code: 'USD', symbol: 'US$', decimal: '.' }),
+    ).toBe('US$ 123.45');
+  });
+
+  it('should return the bare amount without a symbol', () => {
+    expect(formatAmount('123.45', UNKNOWN_CURRENCY)).toBe('123.45');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Registry of the currencies of the bank slip currency code
+ *
+ * @module Currency
+ */
+
+/**
+ * Currency information returned by the currency method
+ */
+export interface Currency {
+  /** ISO 4217 currency code */
+  code: string;
+  /** Currency symbol */
+  symbol: string;
+  /** Decimal separator character */
+  decimal: string;
+}
+
+/**
+ * Brazilian Real, the currency of code 9
+ */
+export const BRL_CURRENCY: Readonly<Currency> = Object.freeze({
+  code: 'BRL',
+  symbol: 'R$',
+  decimal: ',',
+});
+
+/**
+ * The currency of a currency code that is not registered
+ *
+ * Its ISO 4217 code is `XXX` (no currency) and it has no symbol, so amounts
+ * are formatted as bare numbers.
+ */
+export const UNKNOWN_CURRENCY: Readonly<Currency> = Object.freeze({
+  code: 'XXX',
+  symbol: '',
+  decimal: '.',
+});
+
+/**
+ * The registered currencies, by currency code
+ *
+ * FEBRABAN defines code 9 for the Brazilian Real and code 0 for other
+ * currencies, agreed between the payee and the bank. Code 0 is registered as
+ * an unspecified currency with the generic currency sign, until the
+ * application registers the one it uses.
+ */
+const CURRENCIES = new Map<string, Readonly<Currency>>([
+  ['9', BRL_CURRENCY],
+  ['0', Object.freeze({ code: 'XXX', symbol: '¤', decimal: ',' })],
+]);
+
+/**
+ * Checks whether two currencies are the same currency
+ *
+ * Currencies are compared by all their fields, not only their ISO 4217 code,
+ * so that the unspecified currency of code 0 and {@link UNKNOWN_CURRENCY},
+ * both `XXX`, are told apart.
+ *
+ * @param a - A currency
+ * @param b - Another currency
+ * @returns Whether the code, symbol and decimal separator are all equal
+ */
+export function sameCurrency(
+  a: Readonly<Currency>,
+  b: Readonly<Currency>,
+): boolean {
+  return a.code === b.code && a.symbol === b.symbol && a.decimal === b.decimal;
+}
+
+/**
+ * Finds the currency of a currency code
+ *
+ * @param currencyCode - The currency code, the fourth digit of the barcode
+ * @returns The registered currency, or {@link UNKNOWN_CURRENCY}
+ *
+ * @example
+ * currencyByCode('9'); // { code: 'BRL', symbol: 'R$', decimal: ',' }
+ * currencyByCode('5'); // UNKNOWN_CURRENCY
+ */
+export function currencyByCode(currencyCode: string): Readonly<Currency> {
+  return CURRENCIES.get(currencyCode) ?? UNKNOWN_CURRENCY;
+}
+
+/**
+ * Registers the currency of a currency code, replacing the registered one
+ *
+ * @param currencyCode - The 1-digit currency code
+ * @param currency - The currency
+ * @throws {TypeError} If the currency code is not a single digit, or the
+ *                     currency has no 3-letter code, a symbol that is not a
+ *                     string or a decimal separator that is not one character
+ *
+ * @example
+ * // Boletos with code 0 are in US dollars for this application
+ * registerCurrency('0', { code: 'USD', symbol: 'US$', decimal: '.' });
+ */
+export function registerCurrency(
+  currencyCode: string,
+  currency: Currency,
+): void {
+  if (!/^\d$/.test(currencyCode)) {
+    throw new TypeError(
+      `registerCurrency: expected a 1-digit currency code, got "${currencyCode}"`,
+    );
+  }
+  const { code, symbol, decimal } = currency;
+  if (typeof code !== 'string' || !/^[A-Z]{3}$/.test(code)) {
+    throw new TypeError(
+      `registerCurrency: expected a 3-letter ISO 4217 currency code, got "${code}"`,
+    );
+  }
+  if (typeof symbol !== 'string') {
+    throw new TypeError(
+      `registerCurrency: expected the currency symbol to be a string, got ${typeof symbol}`,
+    );
+  }
+  if (typeof decimal !== 'string' || [...decimal].length !== 1) {
+    throw new TypeError(
+      `registerCurrency: expected a 1-character decimal separator, got "${decimal}"`,
+    );
+  }
+  CURRENCIES.set(currencyCode, Object.freeze({ code, symbol, decimal }));
+}
+
+/**
+ * Formats an amount in a currency
+ *
+ * @param amount - The amount as a string with 2 decimal places, as returned by `amount()`
+ * @param currency - The currency
+ * @returns The amount with the currency's decimal separator, after its symbol if it has one
+ *
+ * @example
+ * formatAmount('123.45', BRL_CURRENCY); // 'R$ 123,45'
+ * formatAmount('123.45', UNKNOWN_CURRENCY); // '123.45'
+ */
+export function formatAmount(
+  amount: string,
+  currency: Readonly<Currency>,
+): string {
+  const value = amount.replace('.', currency.decimal);
+  return currency.symbol ? `${currency.symbol} ${value}` : value;
+}
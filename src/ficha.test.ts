@@ -0,0 +1,148 @@
+/**
+ * Unit tests for ficha de compensação layout module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fichaLayout, renderFichaHTML, renderFichaSVG } from './ficha.js';
+import type { FichaData, FichaRect, FichaText } from './ficha.js';
+import { Boleto } from './boleto.js';
+
+const VALID_BOLETO = '23793.38128 86000.000009 00000.000380 1 84660000012345';
+
+const DATA: FichaData = {
+  beneficiario: { name: 'ACME Ltda', document: '12.345.678/0001-90' },
+  pagador: {
+    name: 'Maria Silva',
+    document: '123.456.789-09',
+    address: 'Rua das Flores, 10\n01234-567 São Paulo - SP',
+  },
+  agenciaCodigoBeneficiario: '3381-2/0000003-8',
+  nossoNumero: '86/00000000003-8',
+  numeroDocumento: 'NF 1234',
+  especieDocumento: 'DM',
+  carteira: '09',
+  instrucoes: [
+    'Não receber após o vencimento',
+    'Multa de 2% após o vencimento',
+  ],
+};
+
+/**
+ * Lists the texts of a layout
+ */
+function texts(boleto: Boleto, data: FichaData = DATA): string[] {
+  return fichaLayout(boleto, data)
+    .elements.filter((element): element is FichaText => element.type === 'text')
+    .map((element) => element.text);
+}
+
+describe('fichaLayout', () => {
+  const boleto = new Boleto(VALID_BOLETO);
+
+  it('should lay out an A4 page', () => {
+    const layout = fichaLayout(boleto, DATA);
+    expect(layout.width).toBe(210);
+    expect(layout.height).toBe(297);
+  });
+
+  it('should print the bank code with its check digit on both parts', () => {
+    expect(texts(boleto).filter((text) => text === '237-2')).toHaveLength(2);
+  });
+
+  it.each([
+    ['341', '341-7'],
+    ['001', '001-9'],
+    ['104', '104-0'],
+    ['748', '748-X'],
+    ['756', '756-0'],
+  ])('should compute the check digit of bank code %s', (bankCode, expected) => {
+    const other = Boleto.fromParts({
+      bankCode,
+      dueDate: new Date(2020, 11, 11),
+      amountInCents: 12345,
+      campoLivre: '0'.repeat(25),
+    });
+    expect(texts(other)).toContain(expected);
+  });
+
+  it('should print the linha digitável, due date and amount', () => {
+    const result = texts(boleto);
+    expect(result).toContain(boleto.prettyNumber());
+    expect(result).toContain('11/12/2020');
+    expect(result).toContain('123,45');
+  });
+
+  it('should print the fields of the data object', () => {
+    const result = texts(boleto);
+    expect(result).toContain('ACME Ltda - 12.345.678/0001-90');
+    expect(result).toContain('Maria Silva - 123.456.789-09');
+    expect(result).toContain('01234-567 São Paulo - SP');
+    expect(result).toContain('3381-2/0000003-8');
+    expect(result).toContain('Não receber após o vencimento');
+    expect(result).toContain('Pagável em qualquer banco até o vencimento');
+    expect(result).toContain('Recibo do Pagador');
+    expect(result).toContain('Autenticação mecânica - Ficha de Compensação');
+  });
+
+  it('should print the document dates in São Paulo time', () => {
+    const result = texts(boleto, {
+      ...DATA,
+      // 22:00 on the 1st and 01:00 on the 3rd in São Paulo
+      dataDocumento: new Date('2020-12-02T01:00:00Z'),
+      dataProcessamento: new Date('2020-12-03T04:00:00Z'),
+    });
+    expect(result).toContain('01/12/2020');
+    expect(result).toContain('03/12/2020');
+    expect(result).not.toContain('02/12/2020');
+  });
+
+  it('should draw the barcode at the FEBRABAN size and position', () => {
+    const bars = fichaLayout(boleto, DATA).elements.filter(
+      (element): element is FichaRect =>
+        element.type === 'rect' && element.fill === '#000000',
+    );
+    // 2 start bars, 2 stop bars and 5 bars for each of the 22 digit pairs
+    expect(bars).toHaveLength(2 + 2 + 22 * 5);
+    expect(new Set(bars.map((bar) => bar.height))).toEqual(new Set([13]));
+    expect(new Set(bars.map((bar) => bar.width))).toEqual(
+      new Set([0.25, 0.75]),
+    );
+    expect(bars[0]!.x).toBe(10);
+    expect(bars[0]!.y + bars[0]!.height).toBe(297 - 12);
+    const last = bars[bars.length - 1]!;
+    // 4 narrow start elements, 22 pairs of 4 wide and 6 narrow elements and
+    // a wide bar and 2 narrow elements in the stop pattern
+    expect(last.x + last.width - bars[0]!.x).toBeCloseTo(
+      (4 + 22 * (4 * 3 + 6) + 3 + 2) * 0.25,
+    );
+  });
+});
+
+describe('renderFichaSVG', () => {
+  it('should render an A4 SVG sized in millimetres', () => {
+    const svg = renderFichaSVG(new Boleto(VALID_BOLETO), DATA);
+    expect(svg).toMatch(
+      /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="210mm" height="297mm" viewBox="0 0 210 297"/,
+    );
+    expect(svg).toContain('stroke-dasharray="1 1"');
+    expect(svg).toContain('>237-2</text>');
+  });
+
+  it('should escape the printed text', () => {
+    const svg = renderFichaSVG(new Boleto(VALID_BOLETO), {
+      ...DATA,
+      beneficiario: { name: 'Tom & Jerry <Ltda>' },
+    });
+    expect(svg).toContain('Tom &amp; Jerry &lt;Ltda&gt;');
+  });
+});
+
+describe('renderFichaHTML', () => {
+  it('should wrap the SVG in a printable A4 document', () => {
+    const boleto = new Boleto(VALID_BOLETO);
+    const html = renderFichaHTML(boleto, DATA);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('@page{size:A4;margin:0}');
+    expect(html).toContain(renderFichaSVG(boleto, DATA));
+  });
+});
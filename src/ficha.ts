@@ -0,0 +1,672 @@
+/**
+ * Layout of the full FEBRABAN bank slip page: the recibo do pagador stub, the
+ * cut line and the ficha de compensação with its barcode
+ *
+ * @module Ficha
+ */
+
+import type { Boleto } from './boleto.js';
+import { modulo } from './helpers.js';
+import { escapeXML } from './svg.js';
+
+/**
+ * A4 page size in millimetres
+ */
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+
+/**
+ * Page margin in millimetres
+ */
+const MARGIN = 10;
+
+/**
+ * Width of the right column (vencimento, valor, nosso número) in millimetres
+ */
+const RIGHT_COLUMN_WIDTH = 45;
+
+/**
+ * Heights of the header and of a regular row of fields, in millimetres
+ */
+const HEADER_HEIGHT = 10;
+const ROW_HEIGHT = 8;
+
+/**
+ * Font sizes of the field labels, the field values and the linha digitável,
+ * in points
+ */
+const LABEL_FONT_SIZE = 6;
+const VALUE_FONT_SIZE = 9;
+const NUMBER_FONT_SIZE = 11;
+
+/**
+ * Width of the field borders in millimetres
+ */
+const BORDER_WIDTH = 0.2;
+
+/**
+ * Width of the narrow bars and spaces of the barcode, in millimetres
+ * (FEBRABAN: 0.25 mm)
+ */
+const BARCODE_NARROW_WIDTH = 0.25;
+
+/**
+ * Ratio between the wide and the narrow bars of the barcode (FEBRABAN: 1:3)
+ */
+const BARCODE_WIDE_RATIO = 3;
+
+/**
+ * Height of the barcode in millimetres (FEBRABAN: 13 mm)
+ */
+const BARCODE_HEIGHT = 13;
+
+/**
+ * Distance between the bottom of the barcode and the bottom of the page, in
+ * millimetres (FEBRABAN: 12 mm)
+ */
+const BARCODE_BOTTOM = 12;
+
+/**
+ * Top of the ficha de compensação, chosen so that its fields end right above
+ * the barcode
+ */
+const FICHA_TOP = 170;
+
+/**
+ * Vertical position of the cut line between the stub and the ficha
+ */
+const CUT_LINE_Y = FICHA_TOP - 6;
+
+/**
+ * Default text of the local de pagamento field
+ */
+const DEFAULT_PAYMENT_PLACE = 'Pagável em qualquer banco até o vencimento';
+
+/**
+ * Bank code check digits that do not follow the modulo 11 rule
+ */
+const BANK_CODE_CHECK_DIGIT_EXCEPTIONS: Readonly<Record<string, string>> = {
+  '104': '0',
+};
+
+/**
+ * Millimetres per typographic point
+ */
+const MILLIMETRES_PER_POINT = 25.4 / 72;
+
+/**
+ * A person or company printed on the bank slip
+ */
+export interface FichaParty {
+  /** Name or corporate name */
+  name: string;
+  /** CPF or CNPJ, as it should be printed */
+  document?: string;
+  /** Address; line breaks start new lines where there is room for them */
+  address?: string;
+}
+
+/**
+ * The printed fields of a bank slip that are not encoded in its number
+ */
+export interface FichaData {
+  /** The beneficiário (payee) */
+  beneficiario: FichaParty;
+  /** The pagador (payer) */
+  pagador: FichaParty;
+  /** The sacador/avalista (guarantor), if any */
+  sacadorAvalista?: FichaParty;
+  /** Name printed in the logo box (default: the bank name of the bank code) */
+  bankName?: string;
+  /** Agência / código do beneficiário, as it should be printed */
+  agenciaCodigoBeneficiario?: string;
+  /** Nosso número, as it should be printed */
+  nossoNumero?: string;
+  /** Número do documento */
+  numeroDocumento?: string;
+  /** Espécie do documento, such as `DM` or `DS` */
+  especieDocumento?: string;
+  /** Aceite (default: `N`) */
+  aceite?: string;
+  /** Carteira */
+  carteira?: string;
+  /** Data do documento */
+  dataDocumento?: Date;
+  /** Data de processamento */
+  dataProcessamento?: Date;
+  /** Local de pagamento (default: `Pagável em qualquer banco até o vencimento`) */
+  localPagamento?: string;
+  /** Instructions to the cashier, one per line */
+  instrucoes?: string[];
+}
+
+/**
+ * A filled (or outlined) rectangle of the page layout, in millimetres
+ */
+export interface FichaRect {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Fill color, or none when omitted */
+  fill?: string;
+  /** Width of the black outline, or none when omitted */
+  strokeWidth?: number;
+}
+
+/**
+ * A straight black line of the page layout, in millimetres
+ */
+export interface FichaLine {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  strokeWidth: number;
+  /** Whether the line is dashed, such as the cut line */
+  dashed?: boolean;
+}
+
+/**
+ * A single line of black text of the page layout
+ */
+export interface FichaText {
+  type: 'text';
+  /** Anchor of the text, in millimetres */
+  x: number;
+  /** Baseline of the text, in millimetres */
+  y: number;
+  text: string;
+  /** Font size in points */
+  fontSize: number;
+  bold?: boolean;
+  /** Which side of the text the anchor is on */
+  align: 'start' | 'middle' | 'end';
+}
+
+/**
+ * An element of the page layout
+ */
+export type FichaElement = FichaRect | FichaLine | FichaText;
+
+/**
+ * A page layout made of rectangles, lines and text, in millimetres from the
+ * top left corner of the page
+ */
+export interface FichaLayout {
+  /** Width of the page in millimetres */
+  width: number;
+  /** Height of the page in millimetres */
+  height: number;
+  /** The elements, in drawing order */
+  elements: FichaElement[];
+}
+
+/**
+ * Formats the bank code with its check digit, such as `237-2`
+ *
+ * @param bankCode - The 3-digit bank code
+ * @returns The bank code and its check digit
+ */
+function bankCodeWithCheckDigit(bankCode: string): string {
+  const checkDigit =
+    BANK_CODE_CHECK_DIGIT_EXCEPTIONS[bankCode] ??
+    modulo(bankCode, {
+      modulus: 11,
+      weights: [2, 3, 4, 5, 6, 7, 8, 9],
+      replacements: { 10: 'X', 11: '0' },
+    });
+  return `${bankCode}-${checkDigit}`;
+}
+
+/**
+ * Formats a date as DD/MM/YYYY
+ *
+ * @param date - The date
+ * @param timeZone - The time zone of the calendar day (default: São Paulo,
+ *                   where due dates are set)
+ * @returns The formatted date
+ */
+function formatDate(date: Date, timeZone = 'America/Sao_Paulo'): string {
+  return date.toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone,
+  });
+}
+
+/**
+ * Formats a party as a single line: its name followed by its document
+ *
+ * @param party - The party
+ * @returns The formatted party
+ */
+function formatParty(party: FichaParty): string {
+  return party.document === undefined
+    ? party.name
+    : `${party.name} - ${party.document}`;
+}
+
+/**
+ * Builds the elements of a page layout
+ */
+class LayoutBuilder {
+  readonly elements: FichaElement[] = [];
+
+  /**
+   * Adds a single line of text
+   */
+  text(
+    x: number,
+    y: number,
+    text: string,
+    fontSize: number,
+    options: { bold?: boolean; align?: FichaText['align'] } = {},
+  ): void {
+    if (text === '') return;
+    this.elements.push({
+      type: 'text',
+      x,
+      y,
+      text,
+      fontSize,
+      bold: options.bold ?? false,
+      align: options.align ?? 'start',
+    });
+  }
+
+  /**
+   * Adds a straight line
+   */
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    strokeWidth = BORDER_WIDTH,
+    dashed = false,
+  ): void {
+    this.elements.push({ type: 'line', x1, y1, x2, y2, strokeWidth, dashed });
+  }
+
+  /**
+   * Adds an outlined field with a small label on top and its value lines
+   * below
+   */
+  field(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    label: string,
+    lines: readonly string[] = [],
+    align: 'start' | 'end' = 'start',
+  ): void {
+    this.elements.push({
+      type: 'rect',
+      x,
+      y,
+      width,
+      height,
+      strokeWidth: BORDER_WIDTH,
+    });
+    this.text(x + 1, y + 2.5, label, LABEL_FONT_SIZE);
+    const valueX = align === 'end' ? x + width - 1 : x + 1;
+    lines.forEach((line, i) => {
+      this.text(valueX, y + 6.5 + i * 3.5, line, VALUE_FONT_SIZE, { align });
+    });
+  }
+
+  /**
+   * Adds the header shared by the stub and the ficha: the logo box, the bank
+   * code with its check digit and the linha digitável
+   */
+  header(y: number, boleto: Boleto, data: FichaData): void {
+    const bankName = data.bankName ?? boleto.bank();
+    this.text(MARGIN + 1, y + 6.5, bankName, 8, { bold: true });
+    this.line(MARGIN + 45, y + 2, MARGIN + 45, y + HEADER_HEIGHT, 0.5);
+    this.text(
+      MARGIN + 55,
+      y + 7.5,
+      bankCodeWithCheckDigit(boleto.barcode().substring(0, 3)),
+      14,
+      { bold: true, align: 'middle' },
+    );
+    this.line(MARGIN + 65, y + 2, MARGIN + 65, y + HEADER_HEIGHT, 0.5);
+    this.text(
+      PAGE_WIDTH - MARGIN,
+      y + 7.5,
+      boleto.prettyNumber(),
+      NUMBER_FONT_SIZE,
+      { bold: true, align: 'end' },
+    );
+    this.line(
+      MARGIN,
+      y + HEADER_HEIGHT,
+      PAGE_WIDTH - MARGIN,
+      y + HEADER_HEIGHT,
+      0.5,
+    );
+  }
+}
+
+/**
+ * Lays out the full bank slip page: the recibo do pagador stub, the cut line
+ * and the ficha de compensação
+ *
+ * The barcode is drawn at the FEBRABAN size, with 0.25 mm narrow bars, a 1:3
+ * ratio and 13 mm of height, 12 mm above the bottom of the page and aligned
+ * with the left margin. The linha digitável, bank code, due date and amount
+ * come from the Boleto; every other field comes from `data`. Text is not
+ * wrapped or shortened, so long values should be cut beforehand.
+ *
+ * @param boleto - The bank slip
+ * @param data - The printed fields that are not encoded in the bank slip number
+ * @returns The page layout, in millimetres
+ *
+ * @example
+ * const layout = fichaLayout(boleto, {
+ *   beneficiario: { name: 'ACME Ltda', document: '12.345.678/0001-90' },
+ *   pagador: { name: 'Maria Silva', document: '123.456.789-09' },
+ * });
+ */
+export function fichaLayout(boleto: Boleto, data: FichaData): FichaLayout {
+  const page = new LayoutBuilder();
+  const left = MARGIN;
+  const right = PAGE_WIDTH - MARGIN;
+  const column = right - RIGHT_COLUMN_WIDTH;
+  const dueDate = formatDate(boleto.expirationDate());
+  const currency = boleto.currency();
+  const amount =
+    Number(boleto.amount()) === 0
+      ? ''
+      : boleto.amount().replace('.', currency.decimal);
+  const beneficiario = formatParty(data.beneficiario);
+  const agenciaCodigo = data.agenciaCodigoBeneficiario ?? '';
+  const nossoNumero = data.nossoNumero ?? '';
+
+  // Recibo do pagador
+  let y = MARGIN;
+  page.header(y, boleto, data);
+  y += HEADER_HEIGHT;
+  page.field(left, y, column - left, ROW_HEIGHT, 'Beneficiário', [
+    beneficiario,
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    'Agência / Código do beneficiário',
+    [agenciaCodigo],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  page.field(left, y, column - left, ROW_HEIGHT, 'Pagador', [
+    formatParty(data.pagador),
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    'Vencimento',
+    [dueDate],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  const third = (column - left) / 3;
+  page.field(left, y, third, ROW_HEIGHT, 'Nosso número', [nossoNumero]);
+  page.field(left + third, y, third, ROW_HEIGHT, 'Número do documento', [
+    data.numeroDocumento ?? '',
+  ]);
+  page.field(left + 2 * third, y, third, ROW_HEIGHT, 'Espécie', [
+    currency.symbol,
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    '(=) Valor do documento',
+    [amount],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  page.text(right, y + 3, 'Recibo do Pagador', LABEL_FONT_SIZE, {
+    bold: true,
+    align: 'end',
+  });
+  page.text(column, y + 3, 'Autenticação mecânica', LABEL_FONT_SIZE, {
+    align: 'end',
+  });
+
+  // Cut line
+  page.line(left, CUT_LINE_Y, right, CUT_LINE_Y, BORDER_WIDTH, true);
+  page.text(right, CUT_LINE_Y - 1, 'Corte na linha pontilhada', 5, {
+    align: 'end',
+  });
+
+  // Ficha de compensação
+  y = FICHA_TOP;
+  page.header(y, boleto, data);
+  y += HEADER_HEIGHT;
+  page.field(left, y, column - left, ROW_HEIGHT, 'Local de pagamento', [
+    data.localPagamento ?? DEFAULT_PAYMENT_PLACE,
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    'Vencimento',
+    [dueDate],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  page.field(left, y, column - left, ROW_HEIGHT, 'Beneficiário', [
+    beneficiario,
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    'Agência / Código do beneficiário',
+    [agenciaCodigo],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  const fifth = (column - left) / 5;
+  page.field(left, y, fifth, ROW_HEIGHT, 'Data do documento', [
+    data.dataDocumento === undefined ? '' : formatDate(data.dataDocumento),
+  ]);
+  page.field(left + fifth, y, fifth, ROW_HEIGHT, 'Número do documento', [
+    data.numeroDocumento ?? '',
+  ]);
+  page.field(left + 2 * fifth, y, fifth, ROW_HEIGHT, 'Espécie doc.', [
+    data.especieDocumento ?? '',
+  ]);
+  page.field(left + 3 * fifth, y, fifth, ROW_HEIGHT, 'Aceite', [
+    data.aceite ?? 'N',
+  ]);
+  page.field(left + 4 * fifth, y, fifth, ROW_HEIGHT, 'Data processamento', [
+    data.dataProcessamento === undefined
+      ? ''
+      : formatDate(data.dataProcessamento),
+  ]);
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    'Nosso número',
+    [nossoNumero],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  page.field(left, y, fifth, ROW_HEIGHT, 'Uso do banco');
+  page.field(left + fifth, y, fifth, ROW_HEIGHT, 'Carteira', [
+    data.carteira ?? '',
+  ]);
+  page.field(left + 2 * fifth, y, fifth, ROW_HEIGHT, 'Espécie', [
+    currency.symbol,
+  ]);
+  page.field(left + 3 * fifth, y, fifth, ROW_HEIGHT, 'Quantidade');
+  page.field(left + 4 * fifth, y, fifth, ROW_HEIGHT, 'Valor');
+  page.field(
+    column,
+    y,
+    RIGHT_COLUMN_WIDTH,
+    ROW_HEIGHT,
+    '(=) Valor do documento',
+    [amount],
+    'end',
+  );
+  y += ROW_HEIGHT;
+  const adjustments = [
+    '(-) Desconto / Abatimento',
+    '(-) Outras deduções',
+    '(+) Mora / Multa',
+    '(+) Outros acréscimos',
+    '(=) Valor cobrado',
+  ];
+  page.field(
+    left,
+    y,
+    column - left,
+    adjustments.length * ROW_HEIGHT,
+    'Instruções (texto de responsabilidade do beneficiário)',
+    data.instrucoes ?? [],
+  );
+  adjustments.forEach((label, i) => {
+    page.field(
+      column,
+      y + i * ROW_HEIGHT,
+      RIGHT_COLUMN_WIDTH,
+      ROW_HEIGHT,
+      label,
+    );
+  });
+  y += adjustments.length * ROW_HEIGHT;
+  const pagador = data.pagador.address?.split('\n') ?? [];
+  page.field(left, y, right - left, 15, 'Pagador', [
+    formatParty(data.pagador),
+    ...pagador.slice(0, 2),
+  ]);
+  y += 15;
+  page.text(left, y + 3, 'Sacador / Avalista', LABEL_FONT_SIZE);
+  if (data.sacadorAvalista !== undefined) {
+    page.text(
+      left + 20,
+      y + 3,
+      formatParty(data.sacadorAvalista),
+      LABEL_FONT_SIZE,
+    );
+  }
+  page.text(
+    right,
+    y + 3,
+    'Autenticação mecânica - Ficha de Compensação',
+    LABEL_FONT_SIZE,
+    { bold: true, align: 'end' },
+  );
+
+  // Barcode, left-aligned with the fields: the page margin is wider than the
+  // quiet zone
+  const barcodeTop = PAGE_HEIGHT - BARCODE_BOTTOM - BARCODE_HEIGHT;
+  const barcode = boleto.barcodeData({
+    ratio: BARCODE_WIDE_RATIO,
+    narrowWidth: BARCODE_NARROW_WIDTH,
+    unit: 'mm',
+    height: BARCODE_HEIGHT,
+    quietZone: 0,
+  });
+  for (const stripe of barcode.stripes) {
+    if (stripe.color === barcode.background) continue;
+    page.elements.push({
+      type: 'rect',
+      x: left + stripe.x,
+      y: barcodeTop,
+      width: stripe.width,
+      height: stripe.height,
+      fill: stripe.color,
+    });
+  }
+
+  return { width: PAGE_WIDTH, height: PAGE_HEIGHT, elements: page.elements };
+}
+
+/**
+ * Rounds a coordinate to a thousandth of a millimetre, so that floating point
+ * noise does not end up in the markup
+ *
+ * @param value - The coordinate
+ * @returns The rounded coordinate
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Renders a page layout as an SVG string sized in millimetres
+ *
+ * @param layout - The page layout
+ * @returns The SVG markup
+ */
+function layoutToSVG(layout: FichaLayout): string {
+  const elements = layout.elements.map((element) => {
+    switch (element.type) {
+      case 'rect': {
+        const stroke =
+          element.strokeWidth === undefined
+            ? ''
+            : ` stroke="#000000" stroke-width="${element.strokeWidth}"`;
+        return `<rect x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}" fill="${element.fill ?? 'none'}"${stroke}/>`;
+      }
+      case 'line': {
+        const dash = element.dashed ? ' stroke-dasharray="1 1"' : '';
+        return `<line x1="${round(element.x1)}" y1="${round(element.y1)}" x2="${round(element.x2)}" y2="${round(element.y2)}" stroke="#000000" stroke-width="${element.strokeWidth}"${dash}/>`;
+      }
+      case 'text': {
+        const weight = element.bold ? ' font-weight="bold"' : '';
+        return `<text x="${round(element.x)}" y="${round(element.y)}" font-size="${round(element.fontSize * MILLIMETRES_PER_POINT)}"${weight} text-anchor="${element.align}">${escapeXML(element.text)}</text>`;
+      }
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}mm" height="${layout.height}mm" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Helvetica, Arial, sans-serif">${elements.join('')}</svg>`;
+}
+
+/**
+ * Renders the full bank slip page as an A4 SVG document
+ *
+ * @param boleto - The bank slip
+ * @param data - The printed fields that are not encoded in the bank slip number
+ * @returns The SVG markup, 210 mm by 297 mm
+ *
+ * @see {@link fichaLayout}
+ */
+export function renderFichaSVG(boleto: Boleto, data: FichaData): string {
+  return layoutToSVG(fichaLayout(boleto, data));
+}
+
+/**
+ * Renders the full bank slip page as a printable A4 HTML document
+ *
+ * The page has no margins of its own (the layout already has them), so it
+ * prints at the exact FEBRABAN size as long as the browser's print scaling is
+ * set to 100%.
+ *
+ * @param boleto - The bank slip
+ * @param data - The printed fields that are not encoded in the bank slip number
+ * @returns The HTML document
+ *
+ * @see {@link fichaLayout}
+ */
+export function renderFichaHTML(boleto: Boleto, data: FichaData): string {
+  return `<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8"><title>Boleto ${escapeXML(boleto.prettyNumber())}</title><style>@page{size:A4;margin:0}body{margin:0}svg{display:block}</style></head><body>${renderFichaSVG(boleto, data)}</body></html>`;
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { modulo11 } from './helpers.js';
+import { modulo, modulo10, modulo11 } from './helpers.js';
 
 describe('modulo11', () => {
   it('should calculate correct checksum for string input', () => {
@@ -75,3 +75,88 @@ describe('modulo11', () => {
     expect(() => modulo11(['1', 'a', '3'])).toThrow(TypeError);
   });
 });
+
+describe('modulo10', () => {
+  it('should calculate correct checksum for string input', () => {
+    // First field of 23793.38128: 2*2 + 1*1 + 8*2 (1+6) + 3*1 + 3*2 + 9*1 + 7*2 (1+4) + 3*1 + 2*2 = 42
+    expect(modulo10('237933812')).toBe(8);
+  });
+
+  it('should calculate correct checksum for array input', () => {
+    expect(modulo10(['2', '3', '7', '9', '3', '3', '8', '1', '2'])).toBe(8);
+  });
+
+  it('should return 0 when the sum is a multiple of 10', () => {
+    expect(modulo10('0')).toBe(0);
+    // '19': 9*2 = 18 → 1+8 = 9, plus 1*1 = 1 → sum 10
+    expect(modulo10('19')).toBe(0);
+  });
+
+  it('should sum the digits of two-digit products', () => {
+    // '9': 9*2 = 18 → 1+8 = 9 → 10 - 9 = 1
+    expect(modulo10('9')).toBe(1);
+  });
+
+  it('should throw TypeError for empty string', () => {
+    expect(() => modulo10('')).toThrow(TypeError);
+    expect(() => modulo10('')).toThrow(
+      'modulo10: expected a non-empty string of digits, got ""',
+    );
+  });
+
+  it('should throw TypeError for non-digit input', () => {
+    expect(() => modulo10('12a')).toThrow(TypeError);
+    expect(() => modulo10(['1', 'a'])).toThrow(TypeError);
+  });
+});
+
+describe('modulo', () => {
+  const MODULO_11_BASE_7 = {
+    modulus: 11,
+    weights: [2, 3, 4, 5, 6, 7],
+    replacements: { 10: 'P', 11: '0' },
+  };
+
+  it('should apply the weights cyclically from the rightmost digit', () => {
+    // Bradesco carteira 19, nosso número 00000000002
+    expect(modulo('1900000000002', MODULO_11_BASE_7)).toBe('8');
+  });
+
+  it('should apply the configured replacements to the complement', () => {
+    // Remainder 1 → complement 10 → 'P'
+    expect(modulo('1900000000001', MODULO_11_BASE_7)).toBe('P');
+  });
+
+  it('should apply the weights from the leftmost digit when asked', () => {
+    const options = { modulus: 11, weights: [3, 1, 9, 7] };
+    // 1*3 + 2*1 = 5 → 11 - 5 = 6
+    expect(modulo('12', { ...options, fromLeft: true })).toBe('6');
+    // 2*3 + 1*1 = 7 → 11 - 7 = 4
+    expect(modulo('12', options)).toBe('4');
+  });
+
+  it('should match modulo10 and modulo11 for their configurations', () => {
+    expect(
+      modulo('237933812', {
+        modulus: 10,
+        weights: [2, 1],
+        sumDigits: true,
+        replacements: { 10: '0' },
+      }),
+    ).toBe('8');
+    expect(
+      modulo('123456789', {
+        modulus: 11,
+        weights: [2, 3, 4, 5, 6, 7, 8, 9],
+        replacements: { 10: '1', 11: '1' },
+      }),
+    ).toBe('7');
+  });
+
+  it('should throw TypeError for non-digit input', () => {
+    expect(() => modulo('', MODULO_11_BASE_7)).toThrow(
+      'modulo: expected a non-empty string of digits, got ""',
+    );
+    expect(() => modulo(['1', 'a'], MODULO_11_BASE_7)).toThrow(TypeError);
+  });
+});
@@ -4,6 +4,90 @@
  * @module helpers
  */
 
+/**
+ * Configuration of a weighted modulo check digit algorithm
+ */
+export interface ModuloOptions {
+  /** The modulus the weighted sum is divided by (e.g. 10 or 11) */
+  modulus: number;
+  /**
+   * Weights multiplied with the digits, starting from the rightmost digit
+   * (or the leftmost one, see `fromLeft`) and repeated cyclically
+   */
+  weights: readonly number[];
+  /** Apply the weights starting from the leftmost digit (default: false) */
+  fromLeft?: boolean;
+  /** Sum the digits of each product instead of the product itself (default: false) */
+  sumDigits?: boolean;
+  /**
+   * Replacements for the complement (modulus minus the remainder, from 1 to
+   * modulus). Complements without a replacement are used as the check digit.
+   */
+  replacements?: Readonly<Partial<Record<number, string>>>;
+}
+
+/**
+ * Calculates a check digit with a configurable weighted modulo algorithm
+ *
+ * Each digit is multiplied by its weight and the products are summed. The
+ * check digit is the complement of the remainder of that sum divided by the
+ * modulus, after applying the configured replacements. This covers the
+ * variants used by FEBRABAN and by each bank's nosso número.
+ *
+ * @param number - The number to calculate checksum for (string or array of digit strings)
+ * @param options - The modulus, weights and replacements of the algorithm
+ * @returns The check digit
+ * @throws {TypeError} If the input contains non-digit characters or is empty
+ *
+ * @example
+ * // Bradesco nosso número (modulo 11, base 7) of carteira 19, number 2: returns '8'
+ * modulo('1900000000002', {
+ *   modulus: 11,
+ *   weights: [2, 3, 4, 5, 6, 7],
+ *   replacements: { 10: 'P', 11: '0' },
+ * });
+ */
+export function modulo(
+  number: string | string[],
+  options: ModuloOptions,
+): string {
+  const input = typeof number === 'string' ? number : number.join('');
+  if (!/^\d+$/.test(input)) {
+    throw new TypeError(
+      `modulo: expected a non-empty string of digits, got "${input}"`,
+    );
+  }
+  return weightedCheckDigit(input, options);
+}
+
+/**
+ * Applies a weighted modulo algorithm to a pre-validated digit string
+ *
+ * @param input - The non-empty digit string
+ * @param options - The modulus, weights and replacements of the algorithm
+ * @returns The check digit
+ */
+function weightedCheckDigit(input: string, options: ModuloOptions): string {
+  const { modulus, weights, fromLeft = false, sumDigits = false } = options;
+  const digits = input.split('');
+  if (!fromLeft) digits.reverse();
+
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i += 1) {
+    const product = weights[i % weights.length]! * parseInt(digits[i]!, 10);
+    sum += sumDigits
+      ? product
+          .toString()
+          .split('')
+          .reduce((a, b) => a + parseInt(b, 10), 0)
+      : product;
+  }
+
+  const complement = modulus - (sum % modulus);
+  return options.replacements?.[complement] ?? complement.toString();
+}
+
 /**
  * Calculates the modulo 11 checksum digit
  *
@@ -18,30 +102,56 @@
  * modulo11('123456789');
  */
 export function modulo11(number: string | string[]): number {
-  let digits: string[];
-
-  if (typeof number === 'string') {
-    digits = number.split('');
-  } else {
-    digits = [...number];
-  }
-
-  const input = digits.join('');
+  const input = typeof number === 'string' ? number : number.join('');
   if (!/^\d+$/.test(input)) {
     throw new TypeError(
       `modulo11: expected a non-empty string of digits, got "${input}"`,
     );
   }
 
-  digits.reverse();
-
-  let sum = 0;
+  // Per Febraban spec: complements of 10 and 11 (remainders 1 and 0) map to check digit 1
+  return parseInt(
+    weightedCheckDigit(input, {
+      modulus: 11,
+      weights: [2, 3, 4, 5, 6, 7, 8, 9],
+      replacements: { 10: '1', 11: '1' },
+    }),
+    10,
+  );
+}
 
-  for (let i = 0; i < digits.length; i += 1) {
-    sum += ((i % 8) + 2) * parseInt(digits[i]!, 10);
+/**
+ * Calculates the modulo 10 checksum digit
+ *
+ * Digits are multiplied by alternating weights of 2 and 1, starting from the
+ * rightmost digit. The digits of each product are summed, and the check digit
+ * is the difference between that sum and the next multiple of ten. This is the
+ * algorithm used by the field check digits of the linha digitável. The
+ * specifications can be found at
+ * https://portal.febraban.org.br/pagina/3166/33/pt-br/layout-arrecadacao
+ *
+ * @param number - The number to calculate checksum for (string or array of digit strings)
+ * @returns The modulo 10 checksum digit
+ *
+ * @example
+ * // Returns 8
+ * modulo10('237933812');
+ */
+export function modulo10(number: string | string[]): number {
+  const input = typeof number === 'string' ? number : number.join('');
+  if (!/^\d+$/.test(input)) {
+    throw new TypeError(
+      `modulo10: expected a non-empty string of digits, got "${input}"`,
+    );
   }
 
-  const remainder = (11 - (sum % 11)) % 10;
-  // Per Febraban spec: a remainder of 0 maps to check digit 1
-  return remainder === 0 ? 1 : remainder;
+  return parseInt(
+    weightedCheckDigit(input, {
+      modulus: 10,
+      weights: [2, 1],
+      sumDigits: true,
+      replacements: { 10: '0' },
+    }),
+    10,
+  );
 }
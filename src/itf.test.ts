@@ -3,36 +3,40 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { encode } from './itf.js';
+import { decode, encode } from './itf.js';
 
 describe('encode', () => {
+  // The patterns below are spelled out with the 1:2 ratio of the digit
+  // weights; the default 1:3 ratio only widens the wide elements
+  const RATIO_2 = { ratio: 2 };
+
   it('should encode "01" correctly', () => {
     // For pair "01": black = WEIGHTS[0] = '11221', white = WEIGHTS[1] = '21112'
     // Interleaved: '1211212112'
-    expect(encode('01')).toBe('1111' + '1211212112' + '211');
+    expect(encode('01', RATIO_2)).toBe('1111' + '1211212112' + '211');
   });
 
   it('should encode "00" correctly', () => {
     // For pair "00": black = WEIGHTS[0] = '11221', white = WEIGHTS[0] = '11221'
     // Interleaved: '1111222211'
-    expect(encode('00')).toBe('1111' + '1111222211' + '211');
+    expect(encode('00', RATIO_2)).toBe('1111' + '1111222211' + '211');
   });
 
   it('should encode "99" correctly', () => {
     // For pair "99": black = WEIGHTS[9] = '12121', white = WEIGHTS[9] = '12121'
     // Interleaved: '1122112211'
-    expect(encode('99')).toBe('1111' + '1122112211' + '211');
+    expect(encode('99', RATIO_2)).toBe('1111' + '1122112211' + '211');
   });
 
   it('should encode "95" correctly', () => {
     // For pair "95": black = WEIGHTS[9] = '12121', white = WEIGHTS[5] = '21211'
     // Interleaved: black[i] + white[i] for each i:
     //   '1'+'2', '2'+'1', '1'+'2', '2'+'1', '1'+'1' = '1221122111'
-    expect(encode('95')).toBe('1111' + '1221122111' + '211');
+    expect(encode('95', RATIO_2)).toBe('1111' + '1221122111' + '211');
   });
 
   it('should encode multiple pairs', () => {
-    const result = encode('0123');
+    const result = encode('0123', RATIO_2);
     // START = '1111'
     // pair "01": '1211212112'
     // pair "23": black = WEIGHTS[2] = '12112', white = WEIGHTS[3] = '22111'
@@ -51,7 +55,7 @@ describe('encode', () => {
   it('should encode a typical barcode number', () => {
     // A real barcode example
     const barcode = '23791846600001234563381286000000000000000381';
-    const result = encode(barcode);
+    const result = encode(barcode, RATIO_2);
 
     // Should start with START pattern
     expect(result.startsWith('1111')).toBe(true);
@@ -65,7 +69,7 @@ describe('encode', () => {
     // For n pairs: START(4) + n * 10 (each pair produces 10 characters) + STOP(3)
     // For 22 pairs (44 digits): 4 + 22 * 10 + 3 = 227
     const barcode = '23791846600001234563381286000000000000000381'; // 44 digits = 22 pairs
-    const result = encode(barcode);
+    const result = encode(barcode, RATIO_2);
     expect(result.length).toBe(4 + 22 * 10 + 3);
   });
 
@@ -73,10 +77,10 @@ describe('encode', () => {
     // '5' has odd length, so it is padded to '05' before encoding (standard ITF leading-zero pad)
     // pair "05": parseInt('05', 10) = 5, black = WEIGHTS[0] = '11221', white = WEIGHTS[5] = '21211'
     // Interleaved: '1211222111'
-    const result = encode('5');
+    const result = encode('5', RATIO_2);
     expect(result).toBe('1111' + '1211222111' + '211');
     // Must equal the explicitly pre-padded form
-    expect(result).toBe(encode('05'));
+    expect(result).toBe(encode('05', RATIO_2));
   });
 
   it('should pad multi-digit odd-length input with leading zero', () => {
@@ -101,16 +105,97 @@ describe('encode', () => {
   });
 
   it('should encode a 44-digit all-zeros barcode', () => {
-    const result = encode('0'.repeat(44));
+    const result = encode('0'.repeat(44), RATIO_2);
     expect(result.startsWith('1111')).toBe(true);
     expect(result.endsWith('211')).toBe(true);
     expect(result).toMatch(/^[12]+$/);
   });
 
   it('should encode a 44-digit all-nines barcode', () => {
-    const result = encode('9'.repeat(44));
+    const result = encode('9'.repeat(44), RATIO_2);
     expect(result.startsWith('1111')).toBe(true);
     expect(result.endsWith('211')).toBe(true);
     expect(result).toMatch(/^[12]+$/);
   });
+
+  it('should default to wide elements three times as wide as narrow ones', () => {
+    expect(encode('01')).toBe('1111' + '1311313113' + '311');
+    expect(encode('01')).toBe(encode('01', { ratio: 3 }));
+  });
+
+  it('should scale both weights for fractional ratios', () => {
+    expect(encode('01', { ratio: 2.25 })).toBe('4444' + '4944949449' + '944');
+    expect(encode('01', { ratio: 2.5 })).toBe('2222' + '2522525225' + '522');
+  });
+
+  it.each([1.5, 3.5, 2.75, NaN])(
+    'should throw RangeError for a ratio of %s',
+    (ratio) => {
+      expect(() => encode('01', { ratio })).toThrow(RangeError);
+      expect(() => encode('01', { ratio })).toThrow(
+        `encode: expected a ratio from 2 to 3 with single-digit weights, such as 2.25 or 2.5, got ${ratio}`,
+      );
+    },
+  );
+});
+
+/**
+ * Converts an encoded pattern into widths, scaled by the given narrow width
+ */
+function toWidths(pattern: string, narrow = 1): number[] {
+  return pattern.split('').map((weight) => parseInt(weight, 10) * narrow);
+}
+
+describe('decode', () => {
+  const BARCODE = '23791846600000123453381286000000000000000038';
+
+  it('should decode exact weights', () => {
+    expect(decode(toWidths(encode('01')))).toBe('01');
+    expect(decode(toWidths(encode(BARCODE)))).toBe(BARCODE);
+  });
+
+  it('should decode measured widths with a different wide ratio', () => {
+    // Narrow 3 units, wide 8 units (ratio 1:2.67) with up to ±0.5 unit of noise
+    const widths = encode(BARCODE)
+      .split('')
+      .map((weight, i) => (weight === '1' ? 3 : 8) + ((i % 3) - 1) / 2);
+    expect(decode(widths)).toBe(BARCODE);
+  });
+
+  it('should decode widths read backwards', () => {
+    expect(decode(toWidths(encode(BARCODE)).reverse())).toBe(BARCODE);
+  });
+
+  it('should skip noise outside the quiet zones', () => {
+    const widths = [2, 1, 3, 30, ...toWidths(encode(BARCODE), 2), 30, 1];
+    expect(decode(widths)).toBe(BARCODE);
+    expect(decode([...widths].reverse())).toBe(BARCODE);
+  });
+
+  it('should require a quiet zone after the stop pattern', () => {
+    const widths = [...toWidths(encode('01'), 2), 3, 2];
+    expect(decode(widths)).toBeNull();
+    expect(decode(widths, { quietZone: 1 })).toBe('01');
+  });
+
+  it('should reject groups whose wide elements are not clearly wider', () => {
+    const widths = toWidths(encode('01', { ratio: 2 }), 4).map((width) =>
+      width === 8 ? 5 : width,
+    );
+    expect(decode(widths)).toBeNull();
+    expect(decode(widths, { minWideRatio: 1.2 })).toBe('01');
+  });
+
+  it('should return null when there is no barcode', () => {
+    expect(decode([])).toBeNull();
+    expect(decode([1, 1, 1, 1, 2, 1, 1])).toBeNull();
+    expect(decode([3, 1, 2, 2, 1, 3, 1, 2])).toBeNull();
+  });
+
+  it('should throw TypeError for non-positive widths', () => {
+    expect(() => decode([1, 0, 1])).toThrow(TypeError);
+    expect(() => decode([1, NaN])).toThrow(
+      'decode: expected an array of positive widths, got [1, NaN]',
+    );
+  });
 });
@@ -1,5 +1,5 @@
 /**
- * Interleaved 2 of 5 (ITF) barcode encoding
+ * Interleaved 2 of 5 (ITF) barcode encoding and decoding
  *
  * @module ITF
  */
@@ -60,6 +60,60 @@ const ITFMarkers = {
   STOP: '211',
 } as const;
 
+/**
+ * Default ratio between the wide and the narrow elements when encoding, the
+ * widest the FEBRABAN print spec allows (1:2.25 to 1:3)
+ */
+const DEFAULT_RATIO = 3;
+
+/**
+ * Smallest and largest ratio between the wide and the narrow elements when
+ * encoding
+ */
+const MIN_RATIO = 2;
+const MAX_RATIO = 3;
+
+/**
+ * Default minimum ratio between the narrowest wide element and the widest
+ * narrow element of a group when decoding
+ */
+const DEFAULT_MIN_WIDE_RATIO = 1.5;
+
+/**
+ * Default minimum width of the quiet zones around a barcode when decoding,
+ * in narrow elements
+ */
+const DEFAULT_QUIET_ZONE = 5;
+
+/**
+ * Options for encoding a number
+ */
+export interface EncodeOptions {
+  /**
+   * Ratio between the wide and the narrow elements, from 2 to 3 (default: 3).
+   * Fractional ratios must have single-digit weights, such as 2.25 (4:9) or
+   * 2.5 (2:5).
+   */
+  ratio?: number;
+}
+
+/**
+ * Options for decoding measured bar and space widths
+ */
+export interface DecodeOptions {
+  /**
+   * Minimum ratio between the narrowest wide element and the widest narrow
+   * element of a group for the group to be accepted (default: 1.5)
+   */
+  minWideRatio?: number;
+  /**
+   * Minimum width of the spaces before the start pattern and after the stop
+   * pattern, in narrow elements, unless the widths begin or end there
+   * (default: 5)
+   */
+  quietZone?: number;
+}
+
 /**
  * Converts a pair of digits into their ITF representation and interleaves them
  *
@@ -98,23 +152,198 @@ function encodeITF(number: string): string {
   );
 }
 
+/**
+ * Finds the smallest pair of single-digit weights with the given ratio
+ *
+ * @param ratio - The ratio between the wide and the narrow elements
+ * @returns The narrow and wide weights, or null if the ratio has none
+ *
+ * @example
+ * // Returns [4, 9]
+ * ratioWeights(2.25);
+ */
+function ratioWeights(ratio: number): [number, number] | null {
+  for (let narrow = 1; narrow * ratio <= 9 + 1e-9; narrow += 1) {
+    const wide = Math.round(narrow * ratio);
+    if (Math.abs(wide - narrow * ratio) < 1e-9) return [narrow, wide];
+  }
+  return null;
+}
+
 /**
  * Encodes a base-10 number into its Interleaved 2 of 5 (ITF) representation
  *
+ * Each character of the result is the width of a bar or space, in modules:
+ * `1` and `3` with the default ratio. Other ratios scale both weights so they
+ * stay whole, such as `4` and `9` for 2.25.
+ *
  * @param number - The number to be encoded (must contain digits only)
+ * @param options - The encoding options
  * @returns The input number encoded into its ITF representation
  * @throws {TypeError} If the input contains non-digit characters
+ * @throws {RangeError} If the ratio is out of range or has no single-digit weights
  *
  * @example
- * // Returns "111121121111222121121112211222111112111122211121122211211"
+ * // Returns "111131131111333131131113311333111113111133311131133311311"
  * encode('1234567890');
+ * // Returns "111121121111222121121112211222111112111122211121122211211"
+ * encode('1234567890', { ratio: 2 });
  */
-export function encode(number: string): string {
+export function encode(number: string, options: EncodeOptions = {}): string {
   if (!/^\d+$/.test(number)) {
     throw new TypeError(
       `encode: expected a non-empty string of digits, got "${number}"`,
     );
   }
+  const { ratio = DEFAULT_RATIO } = options;
+  const weights =
+    ratio >= MIN_RATIO && ratio <= MAX_RATIO ? ratioWeights(ratio) : null;
+  if (weights === null) {
+    throw new RangeError(
+      `encode: expected a ratio from ${MIN_RATIO} to ${MAX_RATIO} with single-digit weights, such as 2.25 or 2.5, got ${ratio}`,
+    );
+  }
+
   const paddedNumber = number.length % 2 !== 0 ? '0' + number : number;
-  return encodeITF(paddedNumber);
+  const [narrow, wide] = weights;
+  return encodeITF(paddedNumber).replace(/[12]/g, (weight) =>
+    String(weight === '1' ? narrow : wide),
+  );
+}
+
+/**
+ * Classifies a group of five widths as narrow (1) or wide (2)
+ *
+ * Every ITF digit has exactly two wide elements, so the two widest elements
+ * are taken as wide. The group is rejected when they are not clearly wider
+ * than the other three.
+ *
+ * @param widths - The five measured widths
+ * @param minWideRatio - The minimum ratio between wide and narrow elements
+ * @returns The digit the group encodes, or null if the group is ambiguous
+ */
+function classifyDigit(
+  widths: readonly number[],
+  minWideRatio: number,
+): number | null {
+  const sorted = [...widths].sort((a, b) => b - a);
+  const narrowestWide = sorted[1]!;
+  const widestNarrow = sorted[2]!;
+  if (narrowestWide < widestNarrow * minWideRatio) return null;
+
+  const pattern = widths
+    .map((width) => (width >= narrowestWide ? '2' : '1'))
+    .join('');
+  const digit = DIGIT_WEIGHTS.indexOf(pattern as DigitWeight);
+  return digit === -1 ? null : digit;
+}
+
+/**
+ * Decodes widths read in a single direction, starting at the given element
+ *
+ * @param widths - The measured widths, alternating bars and spaces
+ * @param start - The index of the first bar of the start pattern
+ * @param options - The resolved decoding options
+ * @returns The decoded digits, or null if no barcode starts there
+ */
+function decodeAt(
+  widths: readonly number[],
+  start: number,
+  options: Required<DecodeOptions>,
+): string | null {
+  const { minWideRatio, quietZone } = options;
+  const startPattern = widths.slice(start, start + ITFMarkers.START.length);
+  if (startPattern.length < ITFMarkers.START.length) return null;
+  if (Math.max(...startPattern) >= Math.min(...startPattern) * minWideRatio) {
+    return null;
+  }
+
+  const narrow = startPattern.reduce((a, b) => a + b, 0) / startPattern.length;
+  if (start > 0 && widths[start - 1]! < narrow * quietZone) return null;
+
+  let digits = '';
+  let position = start + ITFMarkers.START.length;
+
+  while (position + ITFMarkers.STOP.length <= widths.length) {
+    const [wide, space, bar] = widths.slice(
+      position,
+      position + ITFMarkers.STOP.length,
+    ) as [number, number, number];
+    const end = position + ITFMarkers.STOP.length;
+    if (
+      digits.length > 0 &&
+      wide >= Math.max(space, bar) * minWideRatio &&
+      Math.max(space, bar) < narrow * minWideRatio &&
+      (end === widths.length || widths[end]! >= narrow * quietZone)
+    ) {
+      return digits;
+    }
+
+    const group = widths.slice(position, position + 2 * BARS_PER_DIGIT);
+    if (group.length < 2 * BARS_PER_DIGIT) return null;
+
+    const black = classifyDigit(
+      group.filter((_, i) => i % 2 === 0),
+      minWideRatio,
+    );
+    const white = classifyDigit(
+      group.filter((_, i) => i % 2 === 1),
+      minWideRatio,
+    );
+    if (black === null || white === null) return null;
+
+    digits += `${black}${white}`;
+    position += 2 * BARS_PER_DIGIT;
+  }
+
+  return null;
+}
+
+/**
+ * Decodes measured bar and space widths back into the digits of an
+ * Interleaved 2 of 5 (ITF) barcode
+ *
+ * This is the inverse of {@link encode}, tolerant to the imprecise widths of
+ * printed or scanned barcodes. The widths alternate between bars and spaces,
+ * starting with a bar, in any unit. The start pattern (four narrow elements)
+ * and the stop pattern (a wide bar and two narrow elements) are searched in
+ * both directions, so a barcode read backwards decodes to the same digits.
+ *
+ * @param widths - The measured widths, alternating bars and spaces, starting with a bar
+ * @param options - The decoding options
+ * @returns The decoded digits, or null if no barcode could be found
+ * @throws {TypeError} If a width is not a positive finite number
+ *
+ * @example
+ * // Returns "01"
+ * decode([1, 1, 1, 1, 1, 2, 1, 1, 2, 1, 2, 1, 1, 2, 2, 1, 1]);
+ */
+export function decode(
+  widths: readonly number[],
+  options: DecodeOptions = {},
+): string | null {
+  if (!widths.every((width) => Number.isFinite(width) && width > 0)) {
+    throw new TypeError(
+      `decode: expected an array of positive widths, got [${widths.join(', ')}]`,
+    );
+  }
+
+  const resolved: Required<DecodeOptions> = {
+    minWideRatio: options.minWideRatio ?? DEFAULT_MIN_WIDE_RATIO,
+    quietZone: options.quietZone ?? DEFAULT_QUIET_ZONE,
+  };
+  const reversed = [...widths].reverse();
+  const directions = [
+    { widths, firstBar: 0 },
+    { widths: reversed, firstBar: (widths.length - 1) % 2 },
+  ];
+
+  for (const direction of directions) {
+    for (let i = direction.firstBar; i < direction.widths.length; i += 2) {
+      const digits = decodeAt(direction.widths, i, resolved);
+      if (digits !== null) return digits;
+    }
+  }
+
+  return null;
 }
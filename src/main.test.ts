@@ -4,13 +4,55 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+  Arrecadacao,
   Boleto,
+  BoletoBuildError,
   BoletoValidationError,
   SVG,
+  renderPNG,
+  bankByCode,
+  bankByISPB,
+  findBank,
+  listBanks,
+  registerBank,
+  searchBanks,
+  BRL_CURRENCY,
+  UNKNOWN_CURRENCY,
+  currencyByCode,
+  formatAmount,
+  registerCurrency,
+  Money,
+  calculateCharges,
+  nextBusinessDay,
+  registerHolidays,
+  calendarDateIn,
+  formatISODate,
+  localCalendarDate,
+  drawBarcode,
+  fichaLayout,
+  renderFichaHTML,
+  renderFichaSVG,
+  renderPDF,
+  decodeCampoLivre,
+  suggestCorrections,
+  scanBarcode,
+  validateNossoNumero,
+  nossoNumeroCheckDigit,
   encode,
+  decode,
+  modulo,
+  modulo10,
   modulo11,
 } from './main.js';
-import type { Currency, BarcodeStripe, BarcodeData } from './main.js';
+import type {
+  BoletoParts,
+  Currency,
+  BarcodeStripe,
+  BarcodeData,
+  BarcodeOptions,
+  CalendarDate,
+  TemporalPlainDate,
+} from './main.js';
 
 describe('main exports', () => {
   it('should export Boleto class', () => {
@@ -23,6 +65,16 @@ describe('main exports', () => {
     expect(typeof BoletoValidationError).toBe('function');
   });
 
+  it('should export BoletoBuildError class', () => {
+    expect(BoletoBuildError).toBeDefined();
+    expect(typeof BoletoBuildError).toBe('function');
+  });
+
+  it('should export Arrecadacao class', () => {
+    expect(Arrecadacao).toBeDefined();
+    expect(typeof Arrecadacao).toBe('function');
+  });
+
   it('should export SVG class', () => {
     expect(SVG).toBeDefined();
     expect(typeof SVG).toBe('function');
@@ -33,11 +85,109 @@ describe('main exports', () => {
     expect(typeof encode).toBe('function');
   });
 
+  it('should export decode function', () => {
+    expect(decode).toBeDefined();
+    expect(typeof decode).toBe('function');
+  });
+
   it('should export modulo11 function', () => {
     expect(modulo11).toBeDefined();
     expect(typeof modulo11).toBe('function');
   });
 
+  it('should export decodeCampoLivre function', () => {
+    expect(decodeCampoLivre).toBeDefined();
+    expect(typeof decodeCampoLivre).toBe('function');
+  });
+
+  it('should export suggestCorrections function', () => {
+    expect(suggestCorrections).toBeDefined();
+    expect(typeof suggestCorrections).toBe('function');
+  });
+
+  it('should export the bank registry functions', () => {
+    for (const fn of [
+      bankByCode,
+      bankByISPB,
+      findBank,
+      listBanks,
+      registerBank,
+      searchBanks,
+    ]) {
+      expect(typeof fn).toBe('function');
+    }
+  });
+
+  it('should export the currency registry', () => {
+    expect(BRL_CURRENCY.code).toBe('BRL');
+    expect(UNKNOWN_CURRENCY.code).toBe('XXX');
+    for (const fn of [currencyByCode, formatAmount, registerCurrency]) {
+      expect(typeof fn).toBe('function');
+    }
+  });
+
+  it('should export Money class', () => {
+    expect(typeof Money).toBe('function');
+  });
+
+  it('should export the business-day calendar functions', () => {
+    expect(typeof nextBusinessDay).toBe('function');
+    expect(typeof registerHolidays).toBe('function');
+    expect(typeof calendarDateIn).toBe('function');
+    expect(typeof formatISODate).toBe('function');
+    expect(typeof localCalendarDate).toBe('function');
+  });
+
+  it('should export calculateCharges function', () => {
+    expect(typeof calculateCharges).toBe('function');
+  });
+
+  it('should export renderPNG function', () => {
+    expect(renderPNG).toBeDefined();
+    expect(typeof renderPNG).toBe('function');
+  });
+
+  it('should export drawBarcode function', () => {
+    expect(drawBarcode).toBeDefined();
+    expect(typeof drawBarcode).toBe('function');
+  });
+
+  it('should export the ficha de compensação renderers', () => {
+    expect(typeof fichaLayout).toBe('function');
+    expect(typeof renderFichaSVG).toBe('function');
+    expect(typeof renderFichaHTML).toBe('function');
+  });
+
+  it('should export renderPDF function', () => {
+    expect(renderPDF).toBeDefined();
+    expect(typeof renderPDF).toBe('function');
+  });
+
+  it('should export scanBarcode function', () => {
+    expect(scanBarcode).toBeDefined();
+    expect(typeof scanBarcode).toBe('function');
+  });
+
+  it('should export validateNossoNumero function', () => {
+    expect(validateNossoNumero).toBeDefined();
+    expect(typeof validateNossoNumero).toBe('function');
+  });
+
+  it('should export nossoNumeroCheckDigit function', () => {
+    expect(nossoNumeroCheckDigit).toBeDefined();
+    expect(typeof nossoNumeroCheckDigit).toBe('function');
+  });
+
+  it('should export modulo function', () => {
+    expect(modulo).toBeDefined();
+    expect(typeof modulo).toBe('function');
+  });
+
+  it('should export modulo10 function', () => {
+    expect(modulo10).toBeDefined();
+    expect(typeof modulo10).toBe('function');
+  });
+
   it('should allow using Currency type', () => {
     const currency: Currency = {
       code: 'BRL',
@@ -47,6 +197,16 @@ describe('main exports', () => {
     expect(currency.code).toBe('BRL');
   });
 
+  it('should allow using BoletoParts type', () => {
+    const parts: BoletoParts = {
+      bankCode: '237',
+      dueDate: new Date(2026, 2, 20),
+      amountInCents: 12345,
+      campoLivre: '3381286000000000000000038',
+    };
+    expect(parts.bankCode).toBe('237');
+  });
+
   it('should allow using BarcodeStripe type', () => {
     const stripe: BarcodeStripe = {
       x: 0,
@@ -63,10 +223,30 @@ describe('main exports', () => {
       stripes: [{ x: 0, width: 4, height: 100, color: '#000000' }],
       viewBoxWidth: 4,
       viewBoxHeight: 100,
+      unit: 'px',
+      background: '#ffffff',
     };
     expect(data.stripes).toHaveLength(1);
     expect(data.viewBoxWidth).toBe(4);
   });
+
+  it('should allow using BarcodeOptions type', () => {
+    const options: BarcodeOptions = { ratio: 2.5, unit: 'in', dpi: 300 };
+    const data = new Boleto(
+      '23793.38128 86000.000009 00000.000380 1 84660000012345',
+    ).barcodeData(options);
+    expect(data.unit).toBe('in');
+  });
+
+  it('should allow using CalendarDate and TemporalPlainDate types', () => {
+    const boleto = new Boleto(
+      '23793.38128 86000.000009 00000.000380 1 84660000012345',
+    );
+    const date: CalendarDate = boleto.dueDate();
+    const plain: TemporalPlainDate | null = boleto.dueDateTemporal();
+    expect(date).toEqual({ year: 2020, month: 12, day: 11 });
+    expect(plain === null || plain.toString() === '2020-12-11').toBe(true);
+  });
 });
 
 describe('public API integration', () => {
@@ -87,7 +267,8 @@ describe('public API integration', () => {
     const boleto = new Boleto(VALID);
     const barcode = boleto.barcode();
     const encoded = encode(barcode);
-    expect(encoded).toMatch(/^[12]+$/);
+    expect(encoded).toMatch(/^[13]+$/);
+    expect(decode(encoded.split('').map(Number))).toBe(barcode);
 
     const barcodeDigits = barcode.split('');
     barcodeDigits.splice(4, 1); // remove checksum
@@ -99,7 +280,7 @@ describe('public API integration', () => {
     const data = boleto.barcodeData();
     expect(data.stripes.length).toBeGreaterThan(0);
     expect(data.viewBoxWidth).toBeGreaterThan(0);
-    expect(data.viewBoxHeight).toBe(100);
+    expect(data.viewBoxHeight).toBe(13);
   });
 
   it('SVG.render and toSVGString produce identical output via public API', () => {
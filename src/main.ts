@@ -6,9 +6,113 @@
  * @packageDocumentation
  */
 
-export { Boleto, BoletoValidationError } from './boleto.js';
-export type { Currency } from './boleto.js';
+export { Boleto, BoletoBuildError, BoletoValidationError } from './boleto.js';
+export type {
+  BoletoParts,
+  BoletoParseResult,
+  BoletoValidationErrorCode,
+  BoletoValidationErrorDetails,
+  BoletoValidationIssue,
+  BoletoValidationIssueCode,
+} from './boleto.js';
+export { Arrecadacao } from './arrecadacao.js';
+export {
+  bankByCode,
+  bankByISPB,
+  findBank,
+  listBanks,
+  registerBank,
+  searchBanks,
+} from './banks.js';
+export type { Bank, BankSearchOptions } from './banks.js';
+export {
+  BRL_CURRENCY,
+  UNKNOWN_CURRENCY,
+  currencyByCode,
+  formatAmount,
+  registerCurrency,
+} from './currency.js';
+export type { Currency } from './currency.js';
+export { Money } from './money.js';
+export {
+  calendarDateIn,
+  daysBetween,
+  easterSunday,
+  formatISODate,
+  holidays,
+  isBusinessDay,
+  localCalendarDate,
+  nationalHolidays,
+  nextBusinessDay,
+  registerHolidays,
+  toTemporalPlainDate,
+} from './calendar.js';
+export type {
+  CalendarDate,
+  CalendarOptions,
+  Holiday,
+  HolidayProvider,
+  TemporalPlainDate,
+} from './calendar.js';
+export { calculateCharges } from './charges.js';
+export type {
+  ChargeBreakdown,
+  ChargeRules,
+  DiscountRule,
+  FineRule,
+  InterestRule,
+} from './charges.js';
+export { suggestCorrections } from './corrections.js';
+export type {
+  Correction,
+  CorrectionKind,
+  CorrectionOptions,
+} from './corrections.js';
+export { decodeCampoLivre } from './campo-livre.js';
+export type {
+  CampoLivre,
+  CampoLivreOptions,
+  BancoDoBrasilCampoLivre,
+  BradescoCampoLivre,
+  ItauCampoLivre,
+  CaixaCampoLivre,
+  SantanderCampoLivre,
+  SicoobCampoLivre,
+  SicrediCampoLivre,
+  UnknownCampoLivre,
+} from './campo-livre.js';
+export { nossoNumeroCheckDigit, validateNossoNumero } from './nosso-numero.js';
+export { scanBarcode } from './scanner.js';
+export type { GrayscaleImage, ScanOptions } from './scanner.js';
+export { fichaLayout, renderFichaHTML, renderFichaSVG } from './ficha.js';
+export type {
+  FichaData,
+  FichaElement,
+  FichaLayout,
+  FichaLine,
+  FichaParty,
+  FichaRect,
+  FichaText,
+} from './ficha.js';
+export { renderPDF } from './pdf.js';
+export type { PDFPage } from './pdf.js';
+export { drawBarcode } from './canvas.js';
+export type {
+  BarcodeCanvasContext,
+  BarcodeCanvasOptions,
+  CanvasOptions,
+} from './canvas.js';
+export { renderPNG } from './png.js';
+export type { BarcodePNGOptions, PNGOptions } from './png.js';
 export { SVG } from './svg.js';
-export type { BarcodeStripe, BarcodeData } from './svg.js';
-export { encode } from './itf.js';
-export { modulo11 } from './helpers.js';
+export type {
+  BarcodeStripe,
+  BarcodeData,
+  BarcodeOptions,
+  SVGOptions,
+  SVGUnit,
+} from './svg.js';
+export { encode, decode } from './itf.js';
+export type { DecodeOptions, EncodeOptions } from './itf.js';
+export { modulo, modulo10, modulo11 } from './helpers.js';
+export type { ModuloOptions } from './helpers.js';
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for money module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Money, centsToDecimal } from './money.js';
+import { BRL_CURRENCY, UNKNOWN_CURRENCY, currencyByCode } from './currency.js';
+import type { Currency } from './currency.js';
+
+const USD: Currency = { code: 'USD', symbol: 'US$', decimal: '.' };
+
+describe('centsToDecimal', () => {
+  it.each([
+    [0n, '0.00'],
+    [1n, '0.01'],
+    [12345n, '123.45'],
+    [9999999999n, '99999999.99'],
+    [-5n, '-0.05'],
+    [-12345n, '-123.45'],
+    [12345678901234567890n, '123456789012345678.90'],
+  ])('should format %s cents as "%s"', (cents, expected) => {
+    expect(centsToDecimal(cents)).toBe(expected);
+  });
+});
+
+describe('Money', () => {
+  describe('constructor', () => {
+    it('should keep the cents as a bigint', () => {
+      expect(new Money(12345).cents).toBe(12345n);
+      expect(new Money(12345n).cents).toBe(12345n);
+    });
+
+    it('should default to the Brazilian Real', () => {
+      expect(new Money(1n).currency).toBe(BRL_CURRENCY);
+    });
+
+    it('should be immutable', () => {
+      const money = new Money(100n);
+      expect(Object.isFrozen(money)).toBe(true);
+      expect(() => {
+        (money as { cents: bigint }).cents = 1n;
+      }).toThrow(TypeError);
+    });
+
+    it.each([1.5, NaN, Infinity, 2 ** 53])(
+      'should throw RangeError for %s cents',
+      (cents) => {
+        expect(() => new Money(cents)).toThrow(RangeError);
+        expect(() => new Money(cents)).toThrow(
+          `Money: expected an integer number of cents, got ${cents}`,
+        );
+      },
+    );
+  });
+
+  describe('arithmetic', () => {
+    it('should add amounts without floating point errors', () => {
+      // 0.1 + 0.2 !== 0.3 in floating point
+      expect(new Money(10n).add(new Money(20n)).cents).toBe(30n);
+    });
+
+    it('should subtract amounts, down to negative ones', () => {
+      const difference = new Money(100n).subtract(new Money(250n));
+      expect(difference.cents).toBe(-150n);
+      expect(difference.toString()).toBe('R$ -1,50');
+    });
+
+    it('should return new instances', () => {
+      const money = new Money(100n);
+      const sum = money.add(new Money(1n));
+      expect(sum).not.toBe(money);
+      expect(money.cents).toBe(100n);
+    });
+
+    it('should keep the currency', () => {
+      expect(new Money(1n, USD).add(new Money(1n, USD)).currency).toBe(USD);
+    });
+
+    it('should throw TypeError for different currencies', () => {
+      expect(() => new Money(1n).add(new Money(1n, USD))).toThrow(TypeError);
+      expect(() => new Money(1n).subtract(new Money(1n, USD))).toThrow(
+        'Money.subtract: expected an amount in BRL, got USD',
+      );
+    });
+  });
+
+  describe('comparisons', () => {
+    const small = new Money(100n);
+    const large = new Money(200n);
+
+    it('should compare amounts', () => {
+      expect(small.compare(large)).toBe(-1);
+      expect(large.compare(small)).toBe(1);
+      expect(small.compare(new Money(100))).toBe(0);
+      expect(small.lessThan(large)).toBe(true);
+      expect(small.greaterThan(large)).toBe(false);
+    });
+
+    it('should sort amounts', () => {
+      const sorted = [large, small].sort((a, b) => a.compare(b));
+      expect(sorted).toEqual([small, large]);
+    });
+
+    it('should check equality including the currency', () => {
+      expect(small.equals(new Money(100n))).toBe(true);
+      expect(small.equals(large)).toBe(false);
+      expect(small.equals(new Money(100n, USD))).toBe(false);
+    });
+
+    it('should throw TypeError when comparing different currencies', () => {
+      expect(() => small.lessThan(new Money(1n, USD))).toThrow(
+        'Money.compare: expected an amount in BRL, got USD',
+      );
+    });
+
+    it('should tell apart currencies with the same code', () => {
+      const other = new Money(100n, currencyByCode('0'));
+      const unknown = new Money(100n, UNKNOWN_CURRENCY);
+      expect(other.equals(unknown)).toBe(false);
+      expect(other.equals(new Money(100n, { ...currencyByCode('0') }))).toBe(
+        true,
+      );
+      expect(() => other.compare(unknown)).toThrow(
+        'Money.compare: expected an amount in XXX "¤", got XXX ""',
+      );
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format the decimal amount', () => {
+      expect(new Money(12345n).toDecimalString()).toBe('123.45');
+    });
+
+    it('should format the amount in its currency', () => {
+      expect(new Money(12345n).toString()).toBe('R$ 123,45');
+      expect(new Money(12345n, USD).toString()).toBe('US$ 123.45');
+      expect(new Money(12345n, UNKNOWN_CURRENCY).toString()).toBe('123.45');
+    });
+
+    it('should serialize to JSON', () => {
+      expect(JSON.stringify(new Money(12345n))).toBe(
+        '{"amount":"123.45","currency":"BRL"}',
+      );
+    });
+  });
+});
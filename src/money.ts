@@ -0,0 +1,191 @@
+/**
+ * Exact money amounts in integer cents
+ *
+ * @module Money
+ */
+
+import { BRL_CURRENCY, formatAmount, sameCurrency } from './currency.js';
+import type { Currency } from './currency.js';
+
+/**
+ * Formats an amount in cents as a decimal string with 2 decimal places,
+ * without going through floating point
+ *
+ * @param cents - The amount in cents
+ * @returns The amount, such as '123.45' or '-0.05'
+ */
+export function centsToDecimal(cents: bigint): string {
+  const sign = cents < 0n ? '-' : '';
+  const digits = (cents < 0n ? -cents : cents).toString().padStart(3, '0');
+  return `${sign}${digits.slice(0, -2)}.${digits.slice(-2)}`;
+}
+
+/**
+ * An immutable amount of money in integer cents
+ *
+ * Amounts are kept as `bigint` cents, so additions and subtractions are exact
+ * and never lose precision. Amounts in different currencies cannot be
+ * combined or compared.
+ *
+ * @example
+ * const total = boleto.money().add(new Money(250n)); // R$ 123,45 + R$ 2,50
+ * total.toString(); // 'R$ 125,95'
+ * total.greaterThan(boleto.money()); // true
+ */
+export class Money {
+  /**
+   * The amount in cents
+   */
+  readonly cents: bigint;
+
+  /**
+   * The currency of the amount
+   */
+  readonly currency: Readonly<Currency>;
+
+  /**
+   * Creates an amount of money
+   *
+   * @param cents - The amount in cents, as a `bigint` or a safe integer
+   * @param currency - The currency of the amount (default: Brazilian Real)
+   * @throws {RangeError} If the amount is a number that is not a safe integer
+   */
+  constructor(
+    cents: bigint | number,
+    currency: Readonly<Currency> = BRL_CURRENCY,
+  ) {
+    if (typeof cents === 'number' && !Number.isSafeInteger(cents)) {
+      throw new RangeError(
+        `Money: expected an integer number of cents, got ${cents}`,
+      );
+    }
+    this.cents = BigInt(cents);
+    this.currency = currency;
+    Object.freeze(this);
+  }
+
+  /**
+   * Adds an amount in the same currency
+   *
+   * @param other - The amount to add
+   * @returns The sum
+   * @throws {TypeError} If the amounts are in different currencies
+   */
+  add(other: Money): Money {
+    this.assertSameCurrency(other, 'add');
+    return new Money(this.cents + other.cents, this.currency);
+  }
+
+  /**
+   * Subtracts an amount in the same currency
+   *
+   * @param other - The amount to subtract
+   * @returns The difference, negative if the other amount is larger
+   * @throws {TypeError} If the amounts are in different currencies
+   */
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other, 'subtract');
+    return new Money(this.cents - other.cents, this.currency);
+  }
+
+  /**
+   * Compares with an amount in the same currency
+   *
+   * @param other - The amount to compare with
+   * @returns -1 if this amount is smaller, 1 if it is larger and 0 if both are equal
+   * @throws {TypeError} If the amounts are in different currencies
+   *
+   * @example
+   * amounts.sort((a, b) => a.compare(b));
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other, 'compare');
+    if (this.cents === other.cents) return 0;
+    return this.cents < other.cents ? -1 : 1;
+  }
+
+  /**
+   * Checks whether an amount is the same amount in the same currency
+   *
+   * @param other - The amount to compare with
+   * @returns true if both the cents and the currencies are equal
+   *
+   * @see {@link sameCurrency}
+   */
+  equals(other: Money): boolean {
+    return (
+      this.cents === other.cents && sameCurrency(this.currency, other.currency)
+    );
+  }
+
+  /**
+   * Checks whether this amount is smaller than another
+   *
+   * @param other - The amount to compare with
+   * @returns true if this amount is smaller
+   * @throws {TypeError} If the amounts are in different currencies
+   */
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Checks whether this amount is larger than another
+   *
+   * @param other - The amount to compare with
+   * @returns true if this amount is larger
+   * @throws {TypeError} If the amounts are in different currencies
+   */
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /**
+   * Returns the amount as a decimal string, such as '123.45'
+   *
+   * @returns The amount with 2 decimal places and a dot separator
+   */
+  toDecimalString(): string {
+    return centsToDecimal(this.cents);
+  }
+
+  /**
+   * Returns the amount formatted in its currency, such as 'R$ 123,45'
+   *
+   * @returns The formatted amount
+   *
+   * @see {@link formatAmount}
+   */
+  toString(): string {
+    return formatAmount(this.toDecimalString(), this.currency);
+  }
+
+  /**
+   * Returns a JSON representation, since `bigint` values cannot be
+   * serialized by `JSON.stringify`
+   *
+   * @returns The decimal amount and the ISO 4217 currency code
+   */
+  toJSON(): { amount: string; currency: string } {
+    return { amount: this.toDecimalString(), currency: this.currency.code };
+  }
+
+  /**
+   * Throws if an amount is in a different currency
+   *
+   * @param other - The other amount
+   * @param method - The name of the calling method, for the error message
+   * @throws {TypeError} If the currencies differ
+   */
+  private assertSameCurrency(other: Money, method: string): void {
+    if (sameCurrency(this.currency, other.currency)) return;
+
+    // Currencies of the same code are told apart by their symbols
+    const sameCode = this.currency.code === other.currency.code;
+    const name = ({ code, symbol }: Readonly<Currency>): string =>
+      sameCode ? `${code} "${symbol}"` : code;
+    throw new TypeError(
+      `Money.${method}: expected an amount in ${name(this.currency)}, got ${name(other.currency)}`,
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for nosso número validation module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeCampoLivre } from './campo-livre.js';
+import { nossoNumeroCheckDigit, validateNossoNumero } from './nosso-numero.js';
+
+// Agência 0057, conta 12345, carteira 109, nosso número 12345678
+const ITAU = '1091234567800057123457000';
+// Beneficiário 005507, nosso número 14000000000000019 (DV 7)
+const CAIXA = '0055077000100040000000190';
+// Beneficiário 1234567, nosso número 566612457800
+const SANTANDER = '9123456756661245780020101';
+// Cooperativa 0001, beneficiário 9, nosso número 0000001
+const SICOOB = '1000101000000900000013001';
+// Cooperativa 0100, posto 02, beneficiário 00013, nosso número 07200003
+const SICREDI = '1107200003801000200013106';
+// Carteira 19, nosso número 00000000002 (DV 8)
+const BRADESCO = '3381190000000000200000030';
+
+describe('nossoNumeroCheckDigit', () => {
+  it.each([
+    ['341', ITAU, '0'],
+    ['104', CAIXA, '7'],
+    ['033', SANTANDER, '2'],
+    ['756', SICOOB, '3'],
+    ['748', SICREDI, '8'],
+    ['237', BRADESCO, '8'],
+  ])('should compute the check digit for bank %s', (bank, raw, expected) => {
+    expect(nossoNumeroCheckDigit(decodeCampoLivre(bank, raw))).toBe(expected);
+  });
+
+  it('should use the short Itaú DAC for carteira 126', () => {
+    // Carteira 126, nosso número 12345678 → modulo 10 of '12612345678' is 5
+    const raw = '1261234567800057123457000';
+    expect(nossoNumeroCheckDigit(decodeCampoLivre('341', raw))).toBe('5');
+  });
+
+  it('should return "P" for a Bradesco remainder of 1', () => {
+    const raw = '3381190000000000100000030';
+    expect(nossoNumeroCheckDigit(decodeCampoLivre('237', raw))).toBe('P');
+  });
+
+  it('should return null for unsupported banks', () => {
+    expect(
+      nossoNumeroCheckDigit(
+        decodeCampoLivre('001', '0000001234567000000012318'),
+      ),
+    ).toBeNull();
+    expect(
+      nossoNumeroCheckDigit(
+        decodeCampoLivre('999', '1234567890123456789012345'),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('validateNossoNumero', () => {
+  it.each([
+    ['341', ITAU],
+    ['033', SANTANDER],
+    ['756', SICOOB],
+    ['748', SICREDI],
+  ])('should accept the embedded check digit for bank %s', (bank, raw) => {
+    expect(validateNossoNumero(decodeCampoLivre(bank, raw))).toBe(true);
+  });
+
+  it.each([
+    ['341', ITAU.slice(0, 11) + '1' + ITAU.slice(12)],
+    ['033', SANTANDER.slice(0, 20) + '3' + SANTANDER.slice(21)],
+    ['756', SICOOB.slice(0, 21) + '4' + SICOOB.slice(22)],
+    ['748', SICREDI.slice(0, 10) + '9' + SICREDI.slice(11)],
+  ])('should reject a wrong check digit for bank %s', (bank, raw) => {
+    expect(validateNossoNumero(decodeCampoLivre(bank, raw))).toBe(false);
+  });
+
+  it('should reject a wrong Itaú agência/conta DAC', () => {
+    expect(
+      validateNossoNumero(
+        decodeCampoLivre('341', ITAU.slice(0, 21) + '8' + ITAU.slice(22)),
+      ),
+    ).toBe(false);
+  });
+
+  it('should reject a wrong Sicredi campo livre check digit', () => {
+    expect(
+      validateNossoNumero(
+        decodeCampoLivre('748', SICREDI.slice(0, 24) + '7' + SICREDI.slice(25)),
+      ),
+    ).toBe(false);
+  });
+
+  describe('Bradesco', () => {
+    const campoLivre = decodeCampoLivre('237', BRADESCO);
+
+    it('should return null without a printed check digit', () => {
+      expect(validateNossoNumero(campoLivre)).toBeNull();
+    });
+
+    it('should compare the printed check digit', () => {
+      expect(validateNossoNumero(campoLivre, '8')).toBe(true);
+      expect(validateNossoNumero(campoLivre, '7')).toBe(false);
+    });
+
+    it('should accept a lowercase "p"', () => {
+      const raw = '3381190000000000100000030';
+      expect(validateNossoNumero(decodeCampoLivre('237', raw), 'p')).toBe(true);
+    });
+  });
+
+  describe('Caixa', () => {
+    const campoLivre = decodeCampoLivre('104', CAIXA);
+
+    it('should verify the beneficiário and campo livre digits alone', () => {
+      expect(validateNossoNumero(campoLivre)).toBe(true);
+      expect(
+        validateNossoNumero(
+          decodeCampoLivre('104', CAIXA.slice(0, 6) + '8' + CAIXA.slice(7)),
+        ),
+      ).toBe(false);
+      expect(
+        validateNossoNumero(
+          decodeCampoLivre('104', CAIXA.slice(0, 24) + '1' + CAIXA.slice(25)),
+        ),
+      ).toBe(false);
+    });
+
+    it('should compare the printed check digit', () => {
+      expect(validateNossoNumero(campoLivre, '7')).toBe(true);
+      expect(validateNossoNumero(campoLivre, '6')).toBe(false);
+    });
+  });
+
+  it('should return null for unsupported banks', () => {
+    expect(
+      validateNossoNumero(decodeCampoLivre('001', '0000001234567000000012318')),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Per-bank nosso número check digit validation
+ *
+ * @module NossoNumero
+ */
+
+import { modulo } from './helpers.js';
+import type { ModuloOptions } from './helpers.js';
+import type { CampoLivre } from './campo-livre.js';
+
+/**
+ * Weights 2 to 9, the most common modulo 11 sequence
+ */
+const WEIGHTS_2_TO_9 = [2, 3, 4, 5, 6, 7, 8, 9] as const;
+
+/**
+ * Modulo 10 with alternating weights 2 and 1 (Itaú DAC)
+ */
+const MODULO_10: ModuloOptions = {
+  modulus: 10,
+  weights: [2, 1],
+  sumDigits: true,
+  replacements: { 10: '0' },
+};
+
+/**
+ * Modulo 11 with weights 2 to 9, where complements above 9 map to 0
+ * (Caixa, Santander and Sicredi)
+ */
+const MODULO_11_ZERO: ModuloOptions = {
+  modulus: 11,
+  weights: WEIGHTS_2_TO_9,
+  replacements: { 10: '0', 11: '0' },
+};
+
+/**
+ * Modulo 11 base 7 with weights 2 to 7, where a remainder of 1 maps to 'P'
+ * (Bradesco)
+ */
+const MODULO_11_BASE_7: ModuloOptions = {
+  modulus: 11,
+  weights: [2, 3, 4, 5, 6, 7],
+  replacements: { 10: 'P', 11: '0' },
+};
+
+/**
+ * Modulo 11 with the constant 3197 applied from the leftmost digit (Sicoob)
+ */
+const MODULO_11_SICOOB: ModuloOptions = {
+  modulus: 11,
+  weights: [3, 1, 9, 7],
+  fromLeft: true,
+  replacements: { 10: '0', 11: '0' },
+};
+
+/**
+ * Itaú carteiras whose DAC covers only carteira and nosso número
+ */
+const ITAU_SHORT_DAC_CARTEIRAS = ['126', '131', '146', '150', '168'];
+
+/**
+ * How a bank computes and stores the check digit of its nosso número
+ */
+interface NossoNumeroRule<T extends CampoLivre> {
+  /** Computes the expected check digit of the nosso número */
+  checkDigit: (campoLivre: T) => string;
+  /** Returns the check digit carried by the campo livre, if any */
+  embeddedCheckDigit?: (campoLivre: T) => string;
+  /** Verifies the other check digits carried by the campo livre, if any */
+  consistent?: (campoLivre: T) => boolean;
+}
+
+/**
+ * Nosso número rules for each supported bank
+ *
+ * Banco do Brasil does not carry a nosso número check digit in the barcode
+ * and is therefore not listed.
+ */
+const RULES: {
+  [K in CampoLivre['bank']]?: NossoNumeroRule<Extract<CampoLivre, { bank: K }>>;
+} = {
+  bradesco: {
+    checkDigit: (c) => modulo(c.carteira + c.nossoNumero, MODULO_11_BASE_7),
+  },
+  itau: {
+    checkDigit: (c) =>
+      modulo(
+        ITAU_SHORT_DAC_CARTEIRAS.includes(c.carteira)
+          ? c.carteira + c.nossoNumero
+          : c.agencia + c.conta + c.carteira + c.nossoNumero,
+        MODULO_10,
+      ),
+    embeddedCheckDigit: (c) => c.nossoNumeroDigit,
+    consistent: (c) => modulo(c.agencia + c.conta, MODULO_10) === c.contaDigit,
+  },
+  caixa: {
+    checkDigit: (c) => modulo(c.nossoNumero, MODULO_11_ZERO),
+    consistent: (c) =>
+      modulo(c.beneficiario, MODULO_11_ZERO) === c.beneficiarioDigit &&
+      modulo(c.raw.substring(0, 24), MODULO_11_ZERO) === c.campoLivreDigit,
+  },
+  santander: {
+    checkDigit: (c) => modulo(c.nossoNumero, MODULO_11_ZERO),
+    embeddedCheckDigit: (c) => c.nossoNumeroDigit,
+  },
+  sicoob: {
+    checkDigit: (c) =>
+      modulo(
+        c.agencia + c.beneficiario.padStart(10, '0') + c.nossoNumero,
+        MODULO_11_SICOOB,
+      ),
+    embeddedCheckDigit: (c) => c.nossoNumeroDigit,
+  },
+  sicredi: {
+    checkDigit: (c) =>
+      modulo(
+        c.cooperativa + c.posto + c.beneficiario + c.nossoNumero,
+        MODULO_11_ZERO,
+      ),
+    embeddedCheckDigit: (c) => c.nossoNumeroDigit,
+    consistent: (c) =>
+      modulo(c.raw.substring(0, 24), MODULO_11_ZERO) === c.campoLivreDigit,
+  },
+};
+
+/**
+ * Looks up the nosso número rule of a decoded campo livre
+ *
+ * @param campoLivre - The decoded campo livre
+ * @returns The bank's rule, or undefined if the bank is not supported
+ */
+function ruleFor(
+  campoLivre: CampoLivre,
+): NossoNumeroRule<CampoLivre> | undefined {
+  return RULES[campoLivre.bank] as NossoNumeroRule<CampoLivre> | undefined;
+}
+
+/**
+ * Computes the expected check digit of the nosso número
+ *
+ * Bradesco uses modulo 11 base 7 over carteira and nosso número, with 'P'
+ * for a remainder of 1. Itaú uses modulo 10 over agência, conta, carteira
+ * and nosso número. Caixa, Santander and Sicredi use modulo 11 with weights
+ * 2 to 9, and Sicoob uses modulo 11 with the constant 3197.
+ *
+ * @param campoLivre - The decoded campo livre
+ * @returns The check digit, or null if the bank is not supported
+ *
+ * @example
+ * // Returns '8'
+ * nossoNumeroCheckDigit(decodeCampoLivre('237', '0000190000000000200000000'));
+ */
+export function nossoNumeroCheckDigit(campoLivre: CampoLivre): string | null {
+  return ruleFor(campoLivre)?.checkDigit(campoLivre) ?? null;
+}
+
+/**
+ * Validates the nosso número check digit of a decoded campo livre
+ *
+ * Itaú, Santander, Sicoob and Sicredi carry the check digit in the campo
+ * livre itself. Bradesco and Caixa only print it next to the nosso número,
+ * so it must be passed in to be verified. The other check digits carried by
+ * the campo livre (Itaú's agência/conta DAC, Caixa's beneficiário and campo
+ * livre digits, Sicredi's campo livre digit) are always verified.
+ *
+ * @param campoLivre - The decoded campo livre
+ * @param checkDigit - The check digit printed next to the nosso número, if known
+ * @returns Whether the check digits are consistent, or null if nothing could be verified
+ */
+export function validateNossoNumero(
+  campoLivre: CampoLivre,
+  checkDigit?: string,
+): boolean | null {
+  const rule = ruleFor(campoLivre);
+  if (rule === undefined) return null;
+
+  if (rule.consistent !== undefined && !rule.consistent(campoLivre)) {
+    return false;
+  }
+
+  const actual = checkDigit ?? rule.embeddedCheckDigit?.(campoLivre);
+  if (actual === undefined) {
+    return rule.consistent !== undefined ? true : null;
+  }
+
+  return rule.checkDigit(campoLivre) === actual.toUpperCase();
+}
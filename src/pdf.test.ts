@@ -0,0 +1,131 @@
+/**
+ * Unit tests for PDF export module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderPDF } from './pdf.js';
+import type { FichaData } from './ficha.js';
+import { Boleto } from './boleto.js';
+
+const VALID_BOLETO = '23793.38128 86000.000009 00000.000380 1 84660000012345';
+
+const DATA: FichaData = {
+  beneficiario: { name: 'ACME (Brasil) Ltda', document: '12.345.678/0001-90' },
+  pagador: { name: 'João Conceição', document: '123.456.789-09' },
+  instrucoes: ['Não receber após o vencimento ✓'],
+};
+
+/**
+ * Reads a PDF file as text, one character per byte
+ */
+function text(pdf: Uint8Array): string {
+  return String.fromCharCode(...pdf);
+}
+
+describe('renderPDF', () => {
+  const boleto = new Boleto(VALID_BOLETO);
+
+  it('should write a PDF header, trailer and end of file marker', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    expect(file.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(file).toContain('/Type /Catalog');
+    expect(file.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('should write a cross-reference table that points at every object', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    const xref = Number(/startxref\n(\d+)\n/.exec(file)![1]);
+    expect(file.slice(xref, xref + 5)).toBe('xref\n');
+
+    const entries = file
+      .slice(xref)
+      .split('\n')
+      .filter((line) => / 00000 n $/.test(line));
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(file.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true);
+    });
+  });
+
+  it('should match every stream length with its content', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    const match = /<< \/Length (\d+) >>\nstream\n/.exec(file)!;
+    const start = match.index + match[0].length;
+    const length = Number(match[1]);
+    expect(file.slice(start + length, start + length + 10)).toBe('\nendstream');
+  });
+
+  it('should use the standard Helvetica fonts', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    expect(file).toContain('/BaseFont /Helvetica /Encoding /WinAnsiEncoding');
+    expect(file).toContain('/BaseFont /Helvetica-Bold');
+    expect(file).not.toContain('/FontFile');
+  });
+
+  it('should set an A4 media box', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    expect(file).toContain('/MediaBox [0 0 595.276 841.89]');
+  });
+
+  it('should set the linha digitável and key fields as text', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    expect(file).toContain(`(${boleto.prettyNumber()}) Tj`);
+    expect(file).toContain('(237-2) Tj');
+    expect(file).toContain('(123,45) Tj');
+    expect(file).toContain('(11/12/2020) Tj');
+  });
+
+  it('should escape parentheses and write accents in WinAnsi', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    expect(file).toContain('(ACME \\(Brasil\\) Ltda - 12.345.678/0001-90) Tj');
+    expect(file).toContain('(Jo\\343o Concei\\347\\343o - 123.456.789-09) Tj');
+    expect(file).toContain('(N\\343o receber ap\\363s o vencimento ?) Tj');
+    expect([...renderPDF([{ boleto, data: DATA }])].every((b) => b < 128)).toBe(
+      true,
+    );
+  });
+
+  it('should right-align text by its Helvetica width', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    // "Recibo do Pagador" is set in 6pt Helvetica-Bold, 54.678pt wide, and
+    // ends at the right margin (200mm)
+    expect(file).toContain(
+      '/F2 6 Tf 512.251 708.661 Td (Recibo do Pagador) Tj',
+    );
+  });
+
+  it('should draw the barcode as filled rectangles', () => {
+    const file = text(renderPDF([{ boleto, data: DATA }]));
+    const bars = file.match(/0 0 0 rg [\d. ]+ re f/g) ?? [];
+    expect(bars).toHaveLength(2 + 2 + 22 * 5);
+    // 0.25mm narrow bars, 13mm tall, 12mm above the bottom of the page
+    expect(bars[0]).toBe('0 0 0 rg 28.346 34.016 0.709 36.85 re f');
+  });
+
+  it('should put one bank slip on each page', () => {
+    const itau = Boleto.fromParts({
+      bankCode: '341',
+      dueDate: new Date(2020, 11, 11),
+      amountInCents: 12345,
+      campoLivre: '0'.repeat(25),
+    });
+    const file = text(
+      renderPDF([
+        { boleto, data: DATA },
+        { boleto: itau, data: DATA },
+      ]),
+    );
+    expect(file).toContain('/Count 2');
+    expect(file.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(file).toContain('(237-2) Tj');
+    expect(file).toContain('(341-7) Tj');
+  });
+
+  it('should throw RangeError without pages', () => {
+    expect(() => renderPDF([])).toThrow(RangeError);
+    expect(() => renderPDF([])).toThrow(
+      'renderPDF: expected at least one page, got 0',
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * PDF export of bank slip pages, with no browser or external dependency
+ *
+ * @module PDF
+ */
+
+import type { Boleto } from './boleto.js';
+import { fichaLayout } from './ficha.js';
+import type { FichaData, FichaElement, FichaLayout } from './ficha.js';
+
+/**
+ * PDF points per millimetre
+ */
+const POINTS_PER_MILLIMETRE = 72 / 25.4;
+
+/**
+ * Widths of the printable ASCII characters (32 to 126) of Helvetica, in
+ * thousandths of the font size
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+/**
+ * Widths of the printable ASCII characters (32 to 126) of Helvetica-Bold, in
+ * thousandths of the font size
+ */
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+/**
+ * Width of the Latin-1 symbols without a width of their own in the tables
+ */
+const DEFAULT_CHARACTER_WIDTH = 556;
+
+/**
+ * A page of a PDF document: a bank slip and its printed fields
+ */
+export interface PDFPage {
+  /** The bank slip */
+  boleto: Boleto;
+  /** The printed fields that are not encoded in the bank slip number */
+  data: FichaData;
+}
+
+/**
+ * Replaces the characters the WinAnsi encoding of the standard fonts cannot
+ * show with a question mark
+ *
+ * @param text - The text
+ * @returns The text, with Latin-1 characters only
+ */
+function toLatin1(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+/**
+ * Measures a line of text set in Helvetica
+ *
+ * Accented letters are as wide as their base letter, except for the accented
+ * i of the regular font, which is wider than the dotted one.
+ *
+ * @param text - The text, with Latin-1 characters only
+ * @param fontSize - The font size in points
+ * @param bold - Whether the text is set in Helvetica-Bold
+ * @returns The width of the text in points
+ */
+function textWidth(text: string, fontSize: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const character of text) {
+    const base = character.normalize('NFD')[0]!;
+    const code = base.charCodeAt(0);
+    if (base === 'i' && character !== 'i') total += 278;
+    else total += widths[code - 32] ?? DEFAULT_CHARACTER_WIDTH;
+  }
+  return (total * fontSize) / 1000;
+}
+
+/**
+ * Escapes a PDF string literal, writing the non-ASCII characters as octal
+ * escapes so that the file stays 7-bit clean
+ *
+ * @param text - The text, with Latin-1 characters only
+ * @returns The escaped text, without the surrounding parentheses
+ */
+function escapeString(text: string): string {
+  return text.replace(/[\\()]|[^\x20-\x7e]/g, (character) =>
+    character === '\\' || character === '(' || character === ')'
+      ? `\\${character}`
+      : `\\${character.charCodeAt(0).toString(8).padStart(3, '0')}`,
+  );
+}
+
+/**
+ * Formats a number for a content stream, with at most three decimals
+ *
+ * @param value - The number
+ * @returns The formatted number
+ */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Converts a hex color such as `#000000` into the operands of the `rg`
+ * operator
+ *
+ * @param hex - The color
+ * @returns The red, green and blue components, from 0 to 1
+ */
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [16, 8, 0]
+    .map((shift) => num(((value >> shift) & 0xff) / 255))
+    .join(' ');
+}
+
+/**
+ * Writes the content stream of a page layout
+ *
+ * Layouts are in millimetres from the top left corner, while PDF pages are in
+ * points from the bottom left corner, so every coordinate is converted here.
+ *
+ * @param layout - The page layout
+ * @returns The content stream operators
+ */
+function contentStream(layout: FichaLayout): string {
+  const k = POINTS_PER_MILLIMETRE;
+  const top = layout.height * k;
+  const operators = layout.elements.map((element: FichaElement): string => {
+    switch (element.type) {
+      case 'rect': {
+        const rect = `${num(element.x * k)} ${num(top - (element.y + element.height) * k)} ${num(element.width * k)} ${num(element.height * k)} re`;
+        const parts = [];
+        if (element.fill !== undefined) {
+          parts.push(`${rgb(element.fill)} rg ${rect} f`);
+        }
+        if (element.strokeWidth !== undefined) {
+          parts.push(`${num(element.strokeWidth * k)} w ${rect} S`);
+        }
+        return parts.join('\n');
+      }
+      case 'line': {
+        const dash = element.dashed ? `[${num(k)} ${num(k)}] 0 d` : '[] 0 d';
+        return `${dash} ${num(element.strokeWidth * k)} w ${num(element.x1 * k)} ${num(top - element.y1 * k)} m ${num(element.x2 * k)} ${num(top - element.y2 * k)} l S`;
+      }
+      case 'text': {
+        const text = toLatin1(element.text);
+        const bold = element.bold ?? false;
+        const width = textWidth(text, element.fontSize, bold);
+        const shift =
+          element.align === 'end'
+            ? width
+            : element.align === 'middle'
+              ? width / 2
+              : 0;
+        return `0 g BT /${bold ? 'F2' : 'F1'} ${num(element.fontSize)} Tf ${num(element.x * k - shift)} ${num(top - element.y * k)} Td (${escapeString(text)}) Tj ET`;
+      }
+    }
+  });
+  return operators.join('\n');
+}
+
+/**
+ * Renders page layouts as a PDF document
+ *
+ * Text is set in the standard Helvetica and Helvetica-Bold fonts, which every
+ * PDF reader provides, so no font is embedded.
+ *
+ * @param layouts - The page layouts, one per page
+ * @returns The PDF file bytes
+ */
+function layoutsToPDF(layouts: readonly FichaLayout[]): Uint8Array {
+  const objects: string[] = [];
+  const add = (body: string): number => objects.push(body);
+
+  const catalog = add('');
+  const pages = add('');
+  const regular = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  );
+  const bold = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  );
+  const kids = layouts.map((layout) => {
+    const content = contentStream(layout);
+    const stream = add(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+    return add(
+      `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${num(layout.width * POINTS_PER_MILLIMETRE)} ${num(layout.height * POINTS_PER_MILLIMETRE)}] /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${stream} 0 R >>`,
+    );
+  });
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pages} 0 R >>`;
+  objects[pages - 1] =
+    `<< /Type /Pages /Kids [${kids.map((kid) => `${kid} 0 R`).join(' ')}] /Count ${kids.length} >>`;
+
+  let file = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = file.length;
+    file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets
+    .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+    .join('');
+  file += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(file, (character) => character.charCodeAt(0));
+}
+
+/**
+ * Renders bank slips as an A4 PDF document, one bank slip per page
+ *
+ * Each page holds the layout of {@link fichaLayout}: the recibo do pagador,
+ * the cut line and the ficha de compensação. The barcode is drawn with vector
+ * rectangles at the FEBRABAN size and the text is set in Helvetica, one of the
+ * standard fonts of every PDF reader. Characters outside Latin-1 are printed
+ * as question marks.
+ *
+ * @param pages - The bank slips and their printed fields, one per page
+ * @returns The PDF file bytes
+ * @throws {RangeError} If no page is given
+ *
+ * @example
+ * const pdf = renderPDF([
+ *   { boleto: first, data: firstData },
+ *   { boleto: second, data: secondData },
+ * ]);
+ */
+export function renderPDF(pages: readonly PDFPage[]): Uint8Array {
+  if (pages.length === 0) {
+    throw new RangeError('renderPDF: expected at least one page, got 0');
+  }
+  return layoutsToPDF(
+    pages.map(({ boleto, data }) => fichaLayout(boleto, data)),
+  );
+}
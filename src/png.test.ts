@@ -0,0 +1,182 @@
+/**
+ * Unit tests for PNG rendering module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderPNG } from './png.js';
+import { SVG } from './svg.js';
+import { encode } from './itf.js';
+
+/**
+ * Splits a PNG file into its chunks
+ */
+function readChunks(png: Uint8Array): { type: string; data: Uint8Array }[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/**
+ * Inflates a zlib stream with the platform's own implementation
+ */
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(bytes));
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate'));
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  const result = new Uint8Array(parts.reduce((a, b) => a + b.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Decodes a PNG rendered by renderPNG into rows of 0 (black) and 1 (white)
+ */
+async function decodePNG(png: Uint8Array): Promise<{
+  width: number;
+  height: number;
+  bitDepth: number;
+  rows: number[][];
+}> {
+  const chunks = readChunks(png);
+  const header = new DataView(
+    chunks[0]!.data.buffer,
+    chunks[0]!.data.byteOffset,
+  );
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+  const bitDepth = chunks[0]!.data[8]!;
+  const raw = await inflate(chunks[1]!.data);
+  const rowLength = 1 + (bitDepth === 8 ? width : Math.ceil(width / 8));
+
+  const rows: number[][] = [];
+  for (let y = 0; y < height; y += 1) {
+    const row = raw.subarray(y * rowLength + 1, (y + 1) * rowLength);
+    rows.push(
+      Array.from({ length: width }, (_, x) =>
+        bitDepth === 8 ? row[x]! / 255 : (row[x >> 3]! >> (7 - (x & 7))) & 1,
+      ),
+    );
+  }
+  return { width, height, bitDepth, rows };
+}
+
+describe('renderPNG', () => {
+  const data = new SVG(encode('0123'), {}).toBarcodeData();
+  // '1111' + '1311313113' + '1333111131' + '311' and 2 quiet zones of 10
+  const MODULES = 4 + 18 + 18 + 5 + 2 * 10;
+
+  it('should write the PNG signature and chunks', () => {
+    const png = renderPNG(data);
+    expect(Array.from(png.subarray(0, 8))).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]);
+    expect(readChunks(png).map((chunk) => chunk.type)).toEqual([
+      'IHDR',
+      'IDAT',
+      'IEND',
+    ]);
+  });
+
+  it('should write a valid CRC for every chunk', () => {
+    const png = renderPNG(data);
+    // CRC-32 of the IEND chunk type is a well-known constant
+    expect(Array.from(png.subarray(png.length - 4))).toEqual([
+      0xae, 0x42, 0x60, 0x82,
+    ]);
+  });
+
+  it('should size the image from the module width and quiet zone', async () => {
+    const image = await decodePNG(renderPNG(data, { moduleWidth: 3 }));
+    expect(image.width).toBe(MODULES * 3);
+    // The 13 mm height scales with the 0.25 mm narrow stripe
+    expect(image.height).toBe(52 * 3);
+    expect(image.bitDepth).toBe(1);
+  });
+
+  it('should replace the quiet zones of the data with the given one', async () => {
+    const image = await decodePNG(
+      renderPNG(data, { moduleWidth: 2, quietZone: 4 }),
+    );
+    expect(image.width).toBe((MODULES - 2 * 10 + 2 * 4) * 2);
+    // The bars start right after the 4-module quiet zone
+    expect(image.rows[0]!.slice(6, 10)).toEqual([1, 1, 0, 0]);
+  });
+
+  it('should draw the stripes as black and white pixels', async () => {
+    const image = await decodePNG(
+      renderPNG(new SVG(encode('0123'), { quietZone: 2 }).toBarcodeData(), {
+        moduleWidth: 1,
+        height: 2,
+      }),
+    );
+    const quietZone = [1, 1];
+    const row = [
+      ...quietZone,
+      ...encode('0123')
+        .split('')
+        .flatMap((weight, i) =>
+          new Array<number>(parseInt(weight, 10)).fill(i % 2 === 0 ? 0 : 1),
+        ),
+      ...quietZone,
+    ];
+    expect(image.rows).toEqual([row, row]);
+  });
+
+  it('should render 8-bit grayscale pixels', async () => {
+    const image = await decodePNG(
+      renderPNG(data, { moduleWidth: 2, height: 4, bitDepth: 8 }),
+    );
+    expect(image.bitDepth).toBe(8);
+    expect(image.rows[0]!.slice(18, 24)).toEqual([1, 1, 0, 0, 1, 1]);
+    // A 3-module wide space between narrow bars
+    expect(image.rows[0]!.slice(28, 40)).toEqual([
+      0, 0, 1, 1, 1, 1, 1, 1, 0, 0, 1, 1,
+    ]);
+    expect(image.rows[3]).toEqual(image.rows[0]);
+  });
+
+  it('should compress the repeated rows', () => {
+    const png = renderPNG(data, { moduleWidth: 2, height: 200, bitDepth: 8 });
+    expect(png.length).toBeLessThan(1000);
+  });
+
+  it.each([
+    [
+      { moduleWidth: 0 },
+      'renderPNG: expected moduleWidth to be a positive integer, got 0',
+    ],
+    [
+      { height: 1.5 },
+      'renderPNG: expected height to be a positive integer, got 1.5',
+    ],
+    [
+      { quietZone: -1 },
+      'renderPNG: expected quietZone to be a non-negative integer, got -1',
+    ],
+    [{ bitDepth: 4 as 8 }, 'renderPNG: expected a bit depth of 1 or 8, got 4'],
+  ])('should reject %o', (options, message) => {
+    expect(() => renderPNG(data, options)).toThrow(RangeError);
+    expect(() => renderPNG(data, options)).toThrow(message);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * PNG rendering for barcode stripes, with no DOM or native dependency
+ *
+ * @module PNG
+ */
+
+import type { BarcodeData } from './svg.js';
+import type { EncodeOptions } from './itf.js';
+
+/**
+ * Default width of a narrow module in pixels
+ */
+const DEFAULT_MODULE_WIDTH = 2;
+
+/**
+ * Default bit depth of the grayscale pixels
+ */
+const DEFAULT_BIT_DEPTH = 1;
+
+/**
+ * The 8-byte signature every PNG file starts with
+ */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * PNG color type of grayscale images
+ */
+const GRAYSCALE_COLOR_TYPE = 0;
+
+/**
+ * Largest distance back a deflate match may refer to
+ */
+const DEFLATE_WINDOW = 32768;
+
+/**
+ * Shortest and longest deflate match
+ */
+const DEFLATE_MIN_MATCH = 3;
+const DEFLATE_MAX_MATCH = 258;
+
+/**
+ * Maximum number of earlier occurrences compared when looking for a match
+ */
+const MAX_CHAIN = 32;
+
+/**
+ * Base lengths of the deflate length codes 257 to 285
+ */
+const LENGTH_BASES = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+
+/**
+ * Extra bits of the deflate length codes 257 to 285
+ */
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+
+/**
+ * Base distances of the deflate distance codes 0 to 29
+ */
+const DISTANCE_BASES = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+
+/**
+ * Extra bits of the deflate distance codes 0 to 29
+ */
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+/**
+ * CRC-32 lookup table (polynomial 0xedb88320)
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Options for rendering a barcode as a PNG image
+ */
+export interface PNGOptions {
+  /** Width of a narrow module in pixels (default: 2) */
+  moduleWidth?: number;
+  /** Height of the barcode in pixels (default: proportional to the barcode data) */
+  height?: number;
+  /** Width of the quiet zones on both sides, in narrow modules (default: the quiet zones of the barcode data) */
+  quietZone?: number;
+  /** Bit depth of the grayscale pixels: 1 (black and white) or 8 (default: 1) */
+  bitDepth?: 1 | 8;
+}
+
+/**
+ * Options for encoding a barcode and rendering it as a PNG image
+ */
+export interface BarcodePNGOptions extends EncodeOptions, PNGOptions {}
+
+/**
+ * Calculates the CRC-32 checksum of a PNG chunk
+ *
+ * @param bytes - The chunk type and data
+ * @returns The unsigned CRC-32 checksum
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Calculates the Adler-32 checksum of a zlib stream's uncompressed data
+ *
+ * @param bytes - The uncompressed data
+ * @returns The unsigned Adler-32 checksum
+ */
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Writes values to a byte array, least significant bit first, as deflate
+ * requires
+ */
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private used = 0;
+
+  /**
+   * Writes the lowest bits of a value, least significant bit first
+   *
+   * @param value - The value to write
+   * @param length - The number of bits to write
+   */
+  write(value: number, length: number): void {
+    for (let i = 0; i < length; i += 1) {
+      this.current |= ((value >>> i) & 1) << this.used;
+      this.used += 1;
+      if (this.used === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  /**
+   * Writes a Huffman code, most significant bit first
+   *
+   * @param code - The code to write
+   * @param length - The number of bits of the code
+   */
+  writeCode(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i -= 1) {
+      this.write((code >>> i) & 1, 1);
+    }
+  }
+
+  /**
+   * Pads the last byte with zeros and returns the written bytes
+   *
+   * @returns The written bytes
+   */
+  finish(): number[] {
+    if (this.used > 0) this.bytes.push(this.current);
+    return this.bytes;
+  }
+}
+
+/**
+ * Writes a literal or length symbol with the fixed Huffman code of deflate
+ *
+ * @param writer - The bit writer
+ * @param symbol - The literal/length symbol (0 to 287)
+ */
+function writeFixedSymbol(writer: BitWriter, symbol: number): void {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+/**
+ * Writes a back-reference with the fixed Huffman codes of deflate
+ *
+ * @param writer - The bit writer
+ * @param length - The match length (3 to 258)
+ * @param distance - The match distance (1 to 32768)
+ */
+function writeMatch(writer: BitWriter, length: number, distance: number): void {
+  let code = LENGTH_BASES.length - 1;
+  while (LENGTH_BASES[code]! > length) code -= 1;
+  writeFixedSymbol(writer, 257 + code);
+  writer.write(length - LENGTH_BASES[code]!, LENGTH_EXTRA_BITS[code]!);
+
+  let distanceCode = DISTANCE_BASES.length - 1;
+  while (DISTANCE_BASES[distanceCode]! > distance) distanceCode -= 1;
+  writer.writeCode(distanceCode, 5);
+  writer.write(
+    distance - DISTANCE_BASES[distanceCode]!,
+    DISTANCE_EXTRA_BITS[distanceCode]!,
+  );
+}
+
+/**
+ * Compresses data into a zlib stream
+ *
+ * Uses a single deflate block with the fixed Huffman codes and a greedy
+ * LZ77 search over the recent occurrences of each 3-byte sequence. This is
+ * far from optimal in general, but barcode images are made of long runs and
+ * identical rows, which it compresses well.
+ *
+ * @param data - The data to compress
+ * @returns The zlib stream
+ */
+function zlib(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+  writer.write(1, 1); // Last block
+  writer.write(1, 2); // Fixed Huffman codes
+
+  // Hash chains: the last position of each 3-byte sequence, and for each
+  // position the previous one with the same sequence
+  const head = new Map<number, number>();
+  const previous = new Int32Array(data.length).fill(-1);
+  const key = (i: number): number =>
+    (data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!;
+
+  let i = 0;
+  while (i < data.length) {
+    let length = 0;
+    let distance = 0;
+
+    if (i + DEFLATE_MIN_MATCH <= data.length) {
+      const max = Math.min(DEFLATE_MAX_MATCH, data.length - i);
+      let candidate = head.get(key(i)) ?? -1;
+      for (
+        let tries = 0;
+        candidate !== -1 &&
+        i - candidate <= DEFLATE_WINDOW &&
+        tries < MAX_CHAIN;
+        tries += 1
+      ) {
+        let candidateLength = 0;
+        while (
+          candidateLength < max &&
+          data[candidate + candidateLength] === data[i + candidateLength]
+        ) {
+          candidateLength += 1;
+        }
+        if (candidateLength > length) {
+          length = candidateLength;
+          distance = i - candidate;
+        }
+        candidate = previous[candidate]!;
+      }
+    }
+
+    const end = length >= DEFLATE_MIN_MATCH ? i + length : i + 1;
+    if (length >= DEFLATE_MIN_MATCH) {
+      writeMatch(writer, length, distance);
+    } else {
+      writeFixedSymbol(writer, data[i]!);
+    }
+    for (; i < end; i += 1) {
+      if (i + DEFLATE_MIN_MATCH > data.length) continue;
+      const hash = key(i);
+      previous[i] = head.get(hash) ?? -1;
+      head.set(hash, i);
+    }
+  }
+
+  writeFixedSymbol(writer, 256); // End of block
+
+  const checksum = adler32(data);
+  return Uint8Array.from([
+    0x78,
+    0x01,
+    ...writer.finish(),
+    checksum >>> 24,
+    (checksum >>> 16) & 0xff,
+    (checksum >>> 8) & 0xff,
+    checksum & 0xff,
+  ]);
+}
+
+/**
+ * Builds a PNG chunk: length, type, data and CRC
+ *
+ * @param type - The 4-letter chunk type
+ * @param data - The chunk data
+ * @returns The chunk bytes
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i += 1) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+/**
+ * Renders barcode stripes as a grayscale PNG image
+ *
+ * The narrowest stripe of the barcode data is taken as the narrow module and
+ * scaled to `moduleWidth` pixels, so the stripes of {@link SVG.toBarcodeData}
+ * render to whole pixels, quiet zones included. With `quietZone`, the quiet
+ * zones of the data are replaced by that many narrow modules. Stripes in the
+ * background color are drawn white and every other stripe black.
+ *
+ * @param data - The barcode data, see {@link SVG.toBarcodeData}
+ * @param options - The module width, height, quiet zone and bit depth
+ * @returns The PNG file bytes
+ * @throws {RangeError} If an option is not a positive integer or the bit depth is not 1 or 8
+ *
+ * @example
+ * const png = renderPNG(boleto.barcodeData(), { moduleWidth: 3, height: 120 });
+ */
+export function renderPNG(
+  data: BarcodeData,
+  options: PNGOptions = {},
+): Uint8Array {
+  const {
+    moduleWidth = DEFAULT_MODULE_WIDTH,
+    bitDepth = DEFAULT_BIT_DEPTH,
+    quietZone,
+  } = options;
+  const narrow = Math.min(...data.stripes.map((stripe) => stripe.width));
+  const scale = moduleWidth / narrow;
+  const height = options.height ?? Math.round(data.viewBoxHeight * scale);
+
+  for (const [name, value] of Object.entries({ moduleWidth, height })) {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new RangeError(
+        `renderPNG: expected ${name} to be a positive integer, got ${value}`,
+      );
+    }
+  }
+  if (
+    quietZone !== undefined &&
+    (!Number.isInteger(quietZone) || quietZone < 0)
+  ) {
+    throw new RangeError(
+      `renderPNG: expected quietZone to be a non-negative integer, got ${quietZone}`,
+    );
+  }
+  if (bitDepth !== 1 && bitDepth !== 8) {
+    throw new RangeError(
+      `renderPNG: expected a bit depth of 1 or 8, got ${String(bitDepth)}`,
+    );
+  }
+
+  // The stripes are drawn from the left edge of the first one, after the
+  // quiet zone of the data or the one of the options
+  const first = data.stripes[0];
+  const last = data.stripes[data.stripes.length - 1];
+  const left = first?.x ?? 0;
+  const right = last ? last.x + last.width : 0;
+  const margin =
+    quietZone === undefined
+      ? Math.round(left * scale)
+      : quietZone * moduleWidth;
+  const width =
+    quietZone === undefined
+      ? Math.round(data.viewBoxWidth * scale)
+      : Math.round((right - left) * scale) + 2 * margin;
+  const dark = new Array<boolean>(width).fill(false);
+  for (const stripe of data.stripes) {
+    if (stripe.color.toLowerCase() === data.background.toLowerCase()) continue;
+    const start = margin + Math.round((stripe.x - left) * scale);
+    const end = margin + Math.round((stripe.x + stripe.width - left) * scale);
+    dark.fill(true, start, end);
+  }
+
+  const rowLength = bitDepth === 8 ? width : Math.ceil(width / 8);
+  const row = new Uint8Array(1 + rowLength); // Filter type 0 (none)
+  for (let x = 0; x < width; x += 1) {
+    if (bitDepth === 8) {
+      row[1 + x] = dark[x] ? 0 : 255;
+    } else if (!dark[x]) {
+      row[1 + (x >> 3)]! |= 0x80 >> (x & 7);
+    }
+  }
+
+  const raw = new Uint8Array(row.length * height);
+  for (let y = 0; y < height; y += 1) raw.set(row, y * row.length);
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = GRAYSCALE_COLOR_TYPE;
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(chunks.reduce((a, b) => a + b.length, 0));
+  let offset = 0;
+  for (const part of chunks) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for scanner module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scanBarcode } from './scanner.js';
+import type { GrayscaleImage } from './scanner.js';
+import { encode } from './itf.js';
+
+const VALID_BOLETO_CLEAN = '23793381288600000000900000000380184660000012345';
+const VALID_BOLETO_BARCODE = '23791846600000123453381286000000000000000038';
+
+/**
+ * Renders a barcode as a grayscale image: black bars on white paper, three
+ * pixels per narrow module, with quiet zones on both sides
+ */
+function render(barcode: string, height = 24): GrayscaleImage {
+  const quietZone = 40;
+  const row: number[] = new Array<number>(quietZone).fill(255);
+  encode(barcode)
+    .split('')
+    .forEach((weight, i) => {
+      const color = i % 2 === 0 ? 0 : 255;
+      for (let x = 0; x < parseInt(weight, 10) * 3; x += 1) row.push(color);
+    });
+  row.push(...new Array<number>(quietZone).fill(255));
+
+  const data = new Uint8Array(row.length * height);
+  for (let y = 0; y < height; y += 1) data.set(row, y * row.length);
+  return { width: row.length, height, data };
+}
+
+/**
+ * Applies a function to every pixel of an image
+ */
+function mapPixels(
+  image: GrayscaleImage,
+  fn: (value: number, x: number, y: number) => number,
+): GrayscaleImage {
+  const data = image.data.map((value, i) =>
+    Math.max(
+      0,
+      Math.min(255, Math.round(fn(value, i % image.width, i / image.width))),
+    ),
+  );
+  return { ...image, data };
+}
+
+describe('scanBarcode', () => {
+  it('should read a clean barcode', () => {
+    const boleto = scanBarcode(render(VALID_BOLETO_BARCODE));
+    expect(boleto?.number()).toBe(VALID_BOLETO_CLEAN);
+  });
+
+  it('should read a barcode rotated by 180°', () => {
+    const image = render(VALID_BOLETO_BARCODE);
+    const rotated = { ...image, data: image.data.slice().reverse() };
+    expect(scanBarcode(rotated)?.number()).toBe(VALID_BOLETO_CLEAN);
+  });
+
+  it('should tolerate uneven lighting', () => {
+    // Dark on the left, washed out on the right, with low contrast overall
+    const image = mapPixels(
+      render(VALID_BOLETO_BARCODE),
+      (value, x) => 40 + value * 0.5 + (x / 1400) * 120,
+    );
+    expect(scanBarcode(image)?.number()).toBe(VALID_BOLETO_CLEAN);
+  });
+
+  it('should tolerate some blur', () => {
+    const image = render(VALID_BOLETO_BARCODE);
+    const blurred = mapPixels(image, (value, x, y) => {
+      const row = Math.floor(y) * image.width;
+      const left = image.data[row + Math.max(0, x - 1)]!;
+      const right = image.data[row + Math.min(image.width - 1, x + 1)]!;
+      return (left + 2 * value + right) / 4;
+    });
+    expect(scanBarcode(blurred)?.number()).toBe(VALID_BOLETO_CLEAN);
+  });
+
+  it('should skip damaged scanlines', () => {
+    // Scribble over the middle rows
+    const image = mapPixels(render(VALID_BOLETO_BARCODE), (value, x, y) =>
+      y >= 10 && y < 14 && x % 7 === 0 ? 0 : value,
+    );
+    expect(scanBarcode(image)?.number()).toBe(VALID_BOLETO_CLEAN);
+  });
+
+  it('should return null for a barcode with a wrong check digit', () => {
+    const wrongChecksum =
+      VALID_BOLETO_BARCODE.slice(0, 4) + '2' + VALID_BOLETO_BARCODE.slice(5);
+    expect(scanBarcode(render(wrongChecksum))).toBeNull();
+  });
+
+  it('should return null for a blank image', () => {
+    const data = new Uint8Array(200 * 20).fill(200);
+    expect(scanBarcode({ width: 200, height: 20, data })).toBeNull();
+  });
+
+  it('should throw TypeError when the buffer does not match the size', () => {
+    expect(() =>
+      scanBarcode({ width: 10, height: 10, data: new Uint8Array(50) }),
+    ).toThrow('scanBarcode: expected 10 x 10 pixels, got 50');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Reading boleto barcodes from grayscale images
+ *
+ * @module Scanner
+ */
+
+import { Boleto, BoletoValidationError } from './boleto.js';
+import { decode } from './itf.js';
+
+/**
+ * Default number of horizontal scanlines sampled across the image
+ */
+const DEFAULT_SCANLINES = 15;
+
+/**
+ * Minimum difference between the darkest and the lightest pixel around a
+ * pixel for it to be considered part of a bar. Flatter regions are taken as
+ * blank paper.
+ */
+const MIN_CONTRAST = 32;
+
+/**
+ * Fraction of the image width used as the window of the adaptive threshold
+ */
+const THRESHOLD_WINDOW_FRACTION = 1 / 16;
+
+/**
+ * Smallest window of the adaptive threshold, in pixels
+ */
+const MIN_THRESHOLD_WINDOW = 8;
+
+/**
+ * Expected length of a boleto barcode
+ */
+const BARCODE_LENGTH = 44;
+
+/**
+ * A grayscale image, one byte per pixel from 0 (black) to 255 (white), row by
+ * row from the top left corner
+ */
+export interface GrayscaleImage {
+  /** Width of the image in pixels */
+  width: number;
+  /** Height of the image in pixels */
+  height: number;
+  /** The pixels, `width * height` bytes long */
+  data: Uint8Array;
+}
+
+/**
+ * Options for scanning an image
+ */
+export interface ScanOptions {
+  /** Number of horizontal scanlines sampled across the image (default: 15) */
+  scanlines?: number;
+}
+
+/**
+ * Binarizes a row of pixels with a threshold that adapts to the lighting
+ *
+ * Each pixel is compared to the midpoint between the darkest and the
+ * lightest pixel around it, so uneven lighting across the image does not
+ * shift bars into spaces.
+ *
+ * @param row - The grayscale pixels of the row
+ * @param radius - Half the width of the window around each pixel
+ * @returns Whether each pixel is dark (part of a bar)
+ */
+function binarize(row: Uint8Array, radius: number): boolean[] {
+  const dark: boolean[] = [];
+
+  for (let x = 0; x < row.length; x += 1) {
+    let min = 255;
+    let max = 0;
+    const end = Math.min(row.length - 1, x + radius);
+    for (let i = Math.max(0, x - radius); i <= end; i += 1) {
+      min = Math.min(min, row[i]!);
+      max = Math.max(max, row[i]!);
+    }
+    dark.push(max - min >= MIN_CONTRAST && row[x]! < (min + max) / 2);
+  }
+
+  return dark;
+}
+
+/**
+ * Measures the runs of dark and light pixels of a binarized row
+ *
+ * @param dark - Whether each pixel is dark
+ * @returns The widths of the runs, starting with the first dark run
+ */
+function runs(dark: readonly boolean[]): number[] {
+  const widths: number[] = [];
+  const first = dark.indexOf(true);
+  if (first === -1) return widths;
+
+  let width = 0;
+  for (let x = first; x < dark.length; x += 1) {
+    if (x > first && dark[x] !== dark[x - 1]) {
+      widths.push(width);
+      width = 0;
+    }
+    width += 1;
+  }
+  widths.push(width);
+
+  return widths;
+}
+
+/**
+ * Lists the rows to sample, from the middle of the image outwards
+ *
+ * @param height - Height of the image in pixels
+ * @param count - Number of rows to sample
+ * @returns The row indexes
+ */
+function scanlineRows(height: number, count: number): number[] {
+  const rows = new Set<number>();
+  for (let i = 1; i <= count; i += 1) {
+    rows.add(Math.min(height - 1, Math.floor((i * height) / (count + 1))));
+  }
+  return [...rows].sort(
+    (a, b) => Math.abs(a - height / 2) - Math.abs(b - height / 2),
+  );
+}
+
+/**
+ * Reads a boleto barcode from a grayscale image
+ *
+ * Samples several horizontal scanlines, binarizes each one with an adaptive
+ * threshold and decodes the Interleaved 2 of 5 symbol with {@link decode},
+ * which also finds barcodes rotated by 180°. The first scanline that yields
+ * 44 digits with a matching general check digit is converted with
+ * {@link Boleto.fromBarcode}.
+ *
+ * @param image - The grayscale image
+ * @param options - The scanning options
+ * @returns The Boleto read from the image, or null if no barcode was found
+ * @throws {TypeError} If the pixel buffer does not match the image size
+ *
+ * @example
+ * const boleto = scanBarcode({ width, height, data });
+ * boleto?.prettyNumber();
+ */
+export function scanBarcode(
+  image: GrayscaleImage,
+  options: ScanOptions = {},
+): Boleto | null {
+  const { width, height, data } = image;
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width <= 0 ||
+    height <= 0 ||
+    data.length !== width * height
+  ) {
+    throw new TypeError(
+      `scanBarcode: expected ${width} x ${height} pixels, got ${data.length}`,
+    );
+  }
+
+  const radius = Math.max(
+    MIN_THRESHOLD_WINDOW,
+    Math.round(width * THRESHOLD_WINDOW_FRACTION),
+  );
+
+  for (const y of scanlineRows(
+    height,
+    options.scanlines ?? DEFAULT_SCANLINES,
+  )) {
+    const row = data.subarray(y * width, (y + 1) * width);
+    const widths = runs(binarize(row, radius));
+    if (widths.length === 0) continue;
+
+    const digits = decode(widths);
+    if (digits === null || digits.length !== BARCODE_LENGTH) continue;
+
+    try {
+      return Boleto.fromBarcode(digits);
+    } catch (error) {
+      if (!(error instanceof BoletoValidationError)) throw error;
+    }
+  }
+
+  return null;
+}
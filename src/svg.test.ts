@@ -4,7 +4,31 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SVG } from './svg.js';
-import type { BarcodeData, BarcodeStripe } from './svg.js';
+import type { BarcodeData, BarcodeStripe, SVGOptions } from './svg.js';
+import { encode } from './itf.js';
+
+/**
+ * Unitless 4-pixel stripes, 100 pixels tall and without quiet zones
+ */
+const PX: SVGOptions = {
+  narrowWidth: 4,
+  unit: 'px',
+  height: 100,
+  quietZone: 0,
+};
+
+/**
+ * Reads the bars of a compact SVG as x and width pairs in view box units
+ */
+function compactBars(svg: string): [number, number][] {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const d = doc.querySelector('path')!.getAttribute('d')!;
+  let x = 0;
+  return [...d.matchAll(/[Mm]([\d.]+) 0h(\d+)v1h-\2z/g)].map((match) => {
+    x = match[0].startsWith('M') ? Number(match[1]) : x + Number(match[1]);
+    return [x, Number(match[2])];
+  });
+}
 
 describe('SVG', () => {
   describe('constructor', () => {
@@ -304,4 +328,315 @@ describe('SVG', () => {
       expect(targets[1]!.querySelector('svg')).toBeNull();
     });
   });
+
+  describe('options', () => {
+    it('should default to the FEBRABAN print size', () => {
+      const svg = new SVG('12', {});
+      expect(svg.stripeWidth).toBe(0.25);
+      expect(svg.options).toMatchObject({
+        narrowWidth: 0.25,
+        unit: 'mm',
+        height: 13,
+        quietZone: 10,
+        foreground: '#000000',
+        background: '#ffffff',
+      });
+    });
+
+    it('should accept custom narrow width', () => {
+      const svg = new SVG('12', { narrowWidth: 8 });
+      expect(svg.stripeWidth).toBe(8);
+    });
+
+    it('should draw the narrowest weight with the narrow width', () => {
+      // Weights 4 and 9 encode a 2.25 ratio
+      const svg = new SVG('49', { ...PX, narrowWidth: 1 });
+      expect(svg.stripeWidth).toBe(0.25);
+      expect(svg.toBarcodeData().stripes.map((s) => s.width)).toEqual([
+        1, 2.25,
+      ]);
+    });
+
+    it('should convert the default sizes to other units', () => {
+      const svg = new SVG('12', { unit: 'in' });
+      expect(svg.options.narrowWidth).toBeCloseTo(0.25 / 25.4);
+      expect(svg.options.height).toBeCloseTo(13 / 25.4);
+    });
+
+    it.each([
+      [
+        { narrowWidth: 0 },
+        'SVG: expected narrowWidth to be a positive number, got 0',
+      ],
+      [{ height: -1 }, 'SVG: expected height to be a positive number, got -1'],
+      [{ dpi: NaN }, 'SVG: expected dpi to be a positive number, got NaN'],
+      [
+        { quietZone: -1 },
+        'SVG: expected quietZone to be a non-negative number, got -1',
+      ],
+    ])('should throw RangeError for %o', (options, message) => {
+      expect(() => new SVG('12', options)).toThrow(RangeError);
+      expect(() => new SVG('12', options)).toThrow(message);
+    });
+
+    it('should throw RangeError for a negative stripe width', () => {
+      expect(() => new SVG('12', -1)).toThrow(RangeError);
+      expect(() => new SVG('12', Number.NaN)).toThrow(
+        'SVG: expected stripeWidth to be a non-negative number, got NaN',
+      );
+    });
+
+    it('should draw a single stripe with the narrow width', () => {
+      const svg = new SVG('5', PX);
+      expect(svg.viewBoxWidth()).toBe(4);
+    });
+
+    it('should add a quiet zone of narrow bars on both sides', () => {
+      const svg = new SVG('1234', { ...PX, quietZone: 10 });
+      expect(svg.viewBoxWidth()).toBe(40 + 2 * 10 * 4);
+      expect(svg.toBarcodeData().stripes[0]!.x).toBe(40);
+    });
+
+    it('should round every stripe to whole dots at the given resolution', () => {
+      // 0.25 mm is 2.95 dots at 300 dpi: narrow bars get 3 dots, wide ones 9
+      const svg = new SVG('13', { dpi: 300, quietZone: 0 });
+      const widths = svg.toBarcodeData().stripes.map((s) => s.width);
+      expect(widths[0]! * (300 / 25.4)).toBeCloseTo(3);
+      expect(widths[1]! * (300 / 25.4)).toBeCloseTo(9);
+    });
+  });
+
+  describe('physical size and colors', () => {
+    it('should size the SVG in the physical unit', () => {
+      const result = new SVG('1111', { quietZone: 2 }).toSVGString();
+      expect(result).toContain('width="2mm" height="13mm"');
+      expect(result).toContain('viewBox="0 0 2 13"');
+    });
+
+    it('should size the SVG in pixels without a unit', () => {
+      const result = new SVG('12', PX).toSVGString();
+      expect(result).toContain('width="12" height="100"');
+      expect(result).toContain('viewBox="0 0 12 100"');
+    });
+
+    it('should fill the quiet zones with the background color', () => {
+      const result = new SVG('11', {
+        foreground: '#123456',
+        background: '#fedcba',
+      }).toSVGString();
+      expect(result).toContain(
+        '<rect width="100%" height="100%" fill="#fedcba"/>',
+      );
+      expect(result).toContain('fill="#123456" x="2.5"');
+      expect(result).toContain('fill="#fedcba" x="2.75"');
+    });
+
+    it('should leave the background out without quiet zones', () => {
+      const result = new SVG('11', PX).toSVGString();
+      expect(result).not.toContain('100%');
+    });
+  });
+
+  describe('compact', () => {
+    beforeEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should draw the bars as a single path with integer coordinates', () => {
+      const result = new SVG('1311', { ...PX, compact: true }).toSVGString();
+
+      expect(result).toBe(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="100" viewBox="0 0 6 1" preserveAspectRatio="none">' +
+          '<rect width="100%" height="100%" fill="#ffffff"/>' +
+          '<path d="M0 0h1v1h-1zm4 0h1v1h-1z" fill="#000000"/></svg>',
+      );
+    });
+
+    it('should merge bars that touch into a single run', () => {
+      const result = new SVG('1013', { ...PX, compact: true }).toSVGString();
+
+      expect(compactBars(result)).toEqual([[0, 2]]);
+    });
+
+    it('should use the foreground and background colors', () => {
+      const result = new SVG('12', {
+        ...PX,
+        compact: true,
+        foreground: '#123456',
+        background: 'none',
+      }).toSVGString();
+
+      expect(result).toContain(
+        '<rect width="100%" height="100%" fill="none"/>',
+      );
+      expect(result).toContain('fill="#123456"/></svg>');
+    });
+
+    it.each<[string, SVGOptions]>([
+      ['the FEBRABAN defaults', {}],
+      ['a 2.5 ratio at 300 dpi', { narrowWidth: 0.01, unit: 'in', dpi: 300 }],
+      ['unitless pixels', PX],
+    ])('should draw the same bars as the full output with %s', (_, options) => {
+      const stripes = encode('0123456789', { ratio: options.dpi ? 2.5 : 3 });
+      const data = new SVG(stripes, options).toBarcodeData();
+      const compact = new SVG(stripes, { ...options, compact: true });
+      const result = compact.toSVGString();
+      const gridWidth = Number(/viewBox="0 0 ([\d.]+) 1"/.exec(result)![1]);
+      const scale = data.viewBoxWidth / gridWidth;
+
+      const bars = data.stripes.filter((stripe) => stripe.color === '#000000');
+      expect(compactBars(result)).toHaveLength(bars.length);
+      compactBars(result).forEach(([x, width], i) => {
+        expect(x * scale).toBeCloseTo(bars[i]!.x, 6);
+        expect(width * scale).toBeCloseTo(bars[i]!.width, 6);
+      });
+      expect(result).toContain(
+        `width="${compact.viewBoxWidth()}${options.unit === 'px' ? '' : (options.unit ?? 'mm')}"`,
+      );
+    });
+
+    it('should be a fraction of the size of the full output', () => {
+      const stripes = encode('0'.repeat(44));
+      const full = new SVG(stripes).toSVGString();
+      const compact = new SVG(stripes, { compact: true }).toSVGString();
+
+      expect(compact.length * 3).toBeLessThan(full.length);
+    });
+
+    it('should append the same path to the DOM', () => {
+      document.body.innerHTML = '<div id="barcode"></div>';
+      const svg = new SVG('1311', { ...PX, compact: true });
+      svg.render('#barcode');
+
+      const element = document.querySelector('#barcode svg')!;
+      expect(element.querySelectorAll('rect')).toHaveLength(1);
+      expect(element.querySelector('path')!.getAttribute('d')).toBe(
+        'M0 0h1v1h-1zm4 0h1v1h-1z',
+      );
+      expect(element.getAttribute('viewBox')).toBe('0 0 6 1');
+      expect(element.getAttribute('preserveAspectRatio')).toBe('none');
+      expect(element.getAttribute('width')).toBe('24');
+    });
+  });
+
+  describe('accessibility', () => {
+    beforeEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should not label the SVG by default', () => {
+      const result = new SVG('12', PX).toSVGString();
+
+      expect(result).not.toContain('role=');
+      expect(result).not.toContain('<title>');
+    });
+
+    it('should give the SVG an accessible name', () => {
+      const result = new SVG('12', {
+        ...PX,
+        title: 'Código de barras do boleto, valor R$ 123,45',
+      }).toSVGString();
+
+      expect(result).toMatch(
+        /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" role="img" aria-label="Código de barras do boleto, valor R\$ 123,45" /,
+      );
+      expect(result).toContain(
+        '<title>Código de barras do boleto, valor R$ 123,45</title><rect',
+      );
+    });
+
+    it('should add a description and aria-describedby', () => {
+      const result = new SVG('12', {
+        ...PX,
+        description: 'Linha digitável abaixo',
+        describedBy: 'linha-digitavel',
+      }).toSVGString();
+
+      expect(result).toContain('role="img"');
+      expect(result).toContain('aria-describedby="linha-digitavel"');
+      expect(result).toContain('<desc>Linha digitável abaixo</desc>');
+    });
+
+    it('should escape the title and description', () => {
+      const result = new SVG('12', {
+        ...PX,
+        title: 'Tom & "Jerry"',
+        description: '<b>',
+      }).toSVGString();
+
+      expect(result).toContain('aria-label="Tom &amp; &quot;Jerry&quot;"');
+      expect(result).toContain('<title>Tom &amp; &quot;Jerry&quot;</title>');
+      expect(result).toContain('<desc>&lt;b&gt;</desc>');
+    });
+
+    it('should label the SVG appended to the DOM', () => {
+      document.body.innerHTML = '<div id="barcode"></div>';
+      new SVG('12', {
+        ...PX,
+        title: 'Boleto',
+        description: 'Vencimento 20/03/2026',
+        describedBy: 'details',
+      }).render('#barcode');
+
+      const svg = document.querySelector('#barcode svg')!;
+      expect(svg.getAttribute('role')).toBe('img');
+      expect(svg.getAttribute('aria-label')).toBe('Boleto');
+      expect(svg.getAttribute('aria-describedby')).toBe('details');
+      expect(svg.firstElementChild!.tagName).toBe('title');
+      expect(svg.firstElementChild!.textContent).toBe('Boleto');
+      expect(svg.querySelector('desc')!.textContent).toBe(
+        'Vencimento 20/03/2026',
+      );
+    });
+  });
+
+  describe('human-readable text', () => {
+    it('should print the text centered under the bars', () => {
+      const result = new SVG('12', { ...PX, text: '0123' }).toSVGString();
+
+      // 10 narrow bars of font size and a band of 1.5 font sizes
+      expect(result).toContain('height="160" viewBox="0 0 12 160"');
+      expect(result).toContain(
+        '<text x="6" y="148" font-family="monospace" font-size="40" text-anchor="middle" fill="#000000">0123</text>',
+      );
+    });
+
+    it('should accept a font size', () => {
+      const result = new SVG('12', {
+        ...PX,
+        text: '0123',
+        fontSize: 10,
+      }).toSVGString();
+
+      expect(result).toContain('viewBox="0 0 12 115"');
+      expect(result).toContain(
+        'y="112" font-family="monospace" font-size="10"',
+      );
+    });
+
+    it('should keep the compact bars in a view box of their own', () => {
+      const result = new SVG('1311', {
+        ...PX,
+        compact: true,
+        text: '00',
+      }).toSVGString();
+
+      expect(result).toContain('viewBox="0 0 24 160"><rect');
+      expect(result).toContain(
+        '<svg width="24" height="100" viewBox="0 0 6 1" preserveAspectRatio="none"><path d="M0 0h1v1h-1zm4 0h1v1h-1z" fill="#000000"/></svg>',
+      );
+      expect(result).toContain('font-size="40"');
+    });
+
+    it('should escape the text', () => {
+      const result = new SVG('12', { ...PX, text: 'a<b' }).toSVGString();
+      expect(result).toContain('>a&lt;b</text>');
+    });
+
+    it('should throw RangeError for a non-positive font size', () => {
+      expect(() => new SVG('12', { fontSize: 0 })).toThrow(
+        'SVG: expected fontSize to be a positive number, got 0',
+      );
+    });
+  });
 });
@@ -4,20 +4,57 @@
  * @module SVG
  */
 
+import type { EncodeOptions } from './itf.js';
+
 /**
  * SVG namespace URI for creating SVG elements
  */
 const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
 
 /**
- * Default stripe width in pixels
+ * Default width of a narrow bar, in millimetres (FEBRABAN: 0.25 mm)
+ */
+const DEFAULT_NARROW_WIDTH_MM = 0.25;
+
+/**
+ * Default barcode height, in millimetres (FEBRABAN: 13 mm)
+ */
+const DEFAULT_BARCODE_HEIGHT_MM = 13;
+
+/**
+ * Default width of a single-weighted stripe, in pixels, without sizing options
  */
 const DEFAULT_STRIPE_WIDTH = 4;
 
 /**
- * Default barcode height in pixels
+ * Barcode height, in pixels, of an SVG sized by a numeric stripe width
+ */
+const PIXEL_BARCODE_HEIGHT = 100;
+
+/**
+ * Default width of the quiet zones on both sides, in narrow bars
+ */
+const DEFAULT_QUIET_ZONE = 10;
+
+/**
+ * Default font size of the human-readable text, in narrow bars
+ */
+const DEFAULT_FONT_SIZE = 10;
+
+/**
+ * Height of the human-readable text band, in font sizes
+ */
+const TEXT_BAND_HEIGHT = 1.5;
+
+/**
+ * Default unit of the barcode dimensions
  */
-const DEFAULT_BARCODE_HEIGHT = 100;
+const DEFAULT_UNIT = 'mm';
+
+/**
+ * Units of each barcode dimension unit per inch
+ */
+const UNITS_PER_INCH = { mm: 25.4, in: 1, px: 96 } as const;
 
 /**
  * Barcode colors for alternating stripes
@@ -27,6 +64,68 @@ const BarcodeColors = {
   WHITE: '#ffffff',
 } as const;
 
+/**
+ * Unit of the barcode dimensions: millimetres, inches or CSS pixels
+ */
+export type SVGUnit = keyof typeof UNITS_PER_INCH;
+
+/**
+ * Options for sizing and coloring a barcode
+ */
+export interface SVGOptions {
+  /** Width of a narrow bar, in `unit` (default: 0.25 mm) */
+  narrowWidth?: number;
+  /** Unit of `narrowWidth` and `height` (default: 'mm') */
+  unit?: SVGUnit;
+  /**
+   * Resolution of the target printer or screen, in dots per inch. When set,
+   * every bar and space is rounded to a whole number of dots (default: none)
+   */
+  dpi?: number;
+  /** Height of the bars, in `unit` (default: 13 mm) */
+  height?: number;
+  /** Width of the quiet zones on both sides, in narrow bars (default: 10) */
+  quietZone?: number;
+  /** Color of the bars (default: '#000000') */
+  foreground?: string;
+  /** Color of the spaces and quiet zones (default: '#ffffff') */
+  background?: string;
+  /**
+   * Whether to draw the bars as a single path over one background rectangle
+   * instead of a rectangle per bar and space, for much smaller markup
+   * (default: false)
+   */
+  compact?: boolean;
+  /** Accessible name of the barcode, as its `<title>` and `aria-label` (default: none) */
+  title?: string;
+  /** Longer accessible description of the barcode, as its `<desc>` (default: none) */
+  description?: string;
+  /** IDs of the elements that describe the barcode, for `aria-describedby` (default: none) */
+  describedBy?: string;
+  /** Human-readable text to print centered under the bars (default: none) */
+  text?: string;
+  /** Font size of the human-readable text, in `unit` (default: 10 narrow bars) */
+  fontSize?: number;
+}
+
+/**
+ * The options of {@link SVGOptions} without a default value
+ */
+type OptionalSVGOption =
+  | 'dpi'
+  | 'title'
+  | 'description'
+  | 'describedBy'
+  | 'text';
+
+/**
+ * Options for encoding and rendering a barcode
+ */
+export interface BarcodeOptions extends EncodeOptions, SVGOptions {
+  /** Whether to print the barcode digits under the bars, in place of `text` (default: false) */
+  humanReadable?: boolean;
+}
+
 /**
  * Represents a single stripe in the barcode
  */
@@ -45,14 +144,16 @@ export interface BarcodeStripe {
  * Structured barcode data for framework-native rendering
  *
  * Use this to render barcodes with React JSX, Vue templates, or any other
- * framework without direct DOM manipulation.
+ * framework without direct DOM manipulation. The stripes are placed after
+ * the left quiet zone, so the background should fill the whole view box.
  *
  * @example
  * ```tsx
  * // React example
  * const data = boleto.barcodeData();
  * return (
- *   <svg viewBox={`0 0 ${data.viewBoxWidth} ${data.viewBoxHeight}`} width="100%" height="100%">
+ *   <svg viewBox={`0 0 ${data.viewBoxWidth} ${data.viewBoxHeight}`} width={`${data.viewBoxWidth}${data.unit}`}>
+ *     <rect width="100%" height="100%" fill={data.background} />
  *     {data.stripes.map((stripe, i) => (
  *       <rect key={i} x={stripe.x} y={0} width={stripe.width} height={stripe.height} fill={stripe.color} />
  *     ))}
@@ -63,10 +164,91 @@ export interface BarcodeStripe {
 export interface BarcodeData {
   /** Array of stripe data for rendering */
   stripes: BarcodeStripe[];
-  /** Total width of the barcode viewBox */
+  /** Total width of the barcode viewBox, quiet zones included */
   viewBoxWidth: number;
   /** Height of the barcode viewBox */
   viewBoxHeight: number;
+  /** Unit of the dimensions */
+  unit: SVGUnit;
+  /** Color of the spaces and quiet zones */
+  background: string;
+}
+
+/**
+ * An SVG element, built once and then serialized as a string or created in
+ * the DOM
+ */
+interface SVGNode {
+  /** Tag name of the element */
+  name: string;
+  /** Attributes of the element, in order */
+  attributes: Record<string, string | number>;
+  /** Child elements */
+  children?: SVGNode[];
+  /** Text content, for elements without children */
+  text?: string;
+}
+
+/**
+ * Escapes the characters that are special in XML text and attributes
+ *
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+export function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes an SVG element as markup
+ *
+ * @param node - The element
+ * @returns The markup of the element and its children
+ */
+function serialize(node: SVGNode): string {
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXML(String(value))}"`)
+    .join('');
+  const content =
+    node.text !== undefined
+      ? escapeXML(node.text)
+      : (node.children ?? []).map(serialize).join('');
+  return content
+    ? `<${node.name}${attributes}>${content}</${node.name}>`
+    : `<${node.name}${attributes}/>`;
+}
+
+/**
+ * Creates an SVG element in the DOM
+ *
+ * @param node - The element
+ * @returns The DOM element, with its children
+ */
+function createNode(node: SVGNode): SVGElement {
+  const element = document.createElementNS(SVG_NAMESPACE, node.name);
+  for (const [name, value] of Object.entries(node.attributes)) {
+    if (name !== 'xmlns') element.setAttribute(name, String(value));
+  }
+  if (node.text !== undefined) element.textContent = node.text;
+  for (const child of node.children ?? []) {
+    element.appendChild(createNode(child));
+  }
+  return element;
+}
+
+/**
+ * Rounds a dimension to a millionth of its unit, so that floating point
+ * noise from unit conversions does not pile up along the barcode
+ *
+ * @param value - The dimension
+ * @returns The rounded dimension
+ */
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
 }
 
 /**
@@ -79,24 +261,120 @@ export class SVG {
   readonly stripes: number[];
 
   /**
-   * The width of a single-weighted stripe
+   * The width of a single-weighted stripe, in `unit`
    */
   readonly stripeWidth: number;
 
+  /**
+   * The sizing and coloring options, with their defaults filled in
+   */
+  readonly options: Readonly<Required<Omit<SVGOptions, OptionalSVGOption>>> &
+    Pick<SVGOptions, OptionalSVGOption>;
+
+  /**
+   * Whether the SVG fills its container instead of having a physical size
+   */
+  private readonly fluid: boolean;
+
   /**
    * Initializes the SVG renderer
    *
+   * The narrowest weight of the stripes is drawn `narrowWidth` wide and the
+   * other weights in proportion, so stripes encoded with any ratio keep it.
+   *
+   * Without options, or with a number in place of them, the SVG is drawn as
+   * in earlier versions: the number is the width in pixels of a
+   * single-weighted stripe (default: 4), the bars are 100 pixels tall, without
+   * quiet zones, and the SVG fills its container. Pass an options object, even
+   * an empty one, for the FEBRABAN print size.
+   *
    * @param stripes - The list of stripes to be drawn as a string of digits
-   * @param stripeWidth - The width of a single-weighted stripe (default: 4)
+   * @param options - The sizing and coloring options, or the stripe width in pixels
+   * @throws {TypeError} If the stripes are not a string of digits
+   * @throws {RangeError} If a dimension is not a positive number or the quiet zone is negative
    */
-  constructor(stripes: string, stripeWidth: number = DEFAULT_STRIPE_WIDTH) {
+  constructor(
+    stripes: string,
+    options: number | SVGOptions = DEFAULT_STRIPE_WIDTH,
+  ) {
     if (!/^\d+$/.test(stripes)) {
       throw new TypeError(
         `SVG: expected a non-empty string of digits, got "${stripes}"`,
       );
     }
+
     this.stripes = stripes.split('').map((digit) => parseInt(digit, 10));
-    this.stripeWidth = stripeWidth;
+
+    if (typeof options === 'number') {
+      if (!Number.isFinite(options) || options < 0) {
+        throw new RangeError(
+          `SVG: expected stripeWidth to be a non-negative number, got ${options}`,
+        );
+      }
+      this.stripeWidth = options;
+      this.fluid = true;
+      this.options = {
+        narrowWidth: options,
+        unit: 'px',
+        height: PIXEL_BARCODE_HEIGHT,
+        quietZone: 0,
+        foreground: BarcodeColors.BLACK,
+        background: BarcodeColors.WHITE,
+        compact: false,
+        fontSize: DEFAULT_FONT_SIZE * options,
+      };
+      return;
+    }
+
+    const unit = options.unit ?? DEFAULT_UNIT;
+    const millimetres = UNITS_PER_INCH[unit] / UNITS_PER_INCH.mm;
+    const {
+      narrowWidth = DEFAULT_NARROW_WIDTH_MM * millimetres,
+      height = DEFAULT_BARCODE_HEIGHT_MM * millimetres,
+      quietZone = DEFAULT_QUIET_ZONE,
+      foreground = BarcodeColors.BLACK,
+      background = BarcodeColors.WHITE,
+      compact = false,
+      fontSize = DEFAULT_FONT_SIZE * narrowWidth,
+      dpi,
+    } = options;
+
+    for (const [name, value] of Object.entries({
+      narrowWidth,
+      height,
+      fontSize,
+      dpi,
+    })) {
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new RangeError(
+          `SVG: expected ${name} to be a positive number, got ${value}`,
+        );
+      }
+    }
+    if (!Number.isFinite(quietZone) || quietZone < 0) {
+      throw new RangeError(
+        `SVG: expected quietZone to be a non-negative number, got ${quietZone}`,
+      );
+    }
+
+    this.stripeWidth =
+      narrowWidth / Math.max(1, Math.min(...this.stripes.filter(Boolean)));
+    this.fluid = false;
+    this.options = {
+      narrowWidth,
+      unit,
+      height,
+      quietZone,
+      foreground,
+      background,
+      compact,
+      fontSize,
+      dpi,
+      title: options.title,
+      description: options.description,
+      describedBy: options.describedBy,
+      text: options.text,
+    };
   }
 
   /**
@@ -110,15 +388,15 @@ export class SVG {
    */
   toBarcodeData(): BarcodeData {
     const stripes: BarcodeStripe[] = [];
-    let pos = 0;
+    let pos = this.quietZoneWidth();
 
     for (let i = 0; i < this.stripes.length; i += 1) {
-      const width = this.stripeWidth * this.stripes[i]!;
+      const width = this.stripeLength(this.stripes[i]!);
       stripes.push({
-        x: pos,
-        width,
-        height: DEFAULT_BARCODE_HEIGHT,
-        color: SVG.color(i),
+        x: round(pos),
+        width: round(width),
+        height: this.options.height,
+        color: i % 2 ? this.options.background : this.options.foreground,
       });
       pos += width;
     }
@@ -126,7 +404,9 @@ export class SVG {
     return {
       stripes,
       viewBoxWidth: this.viewBoxWidth(),
-      viewBoxHeight: DEFAULT_BARCODE_HEIGHT,
+      viewBoxHeight: this.options.height,
+      unit: this.options.unit,
+      background: this.options.background,
     };
   }
 
@@ -135,29 +415,27 @@ export class SVG {
    *
    * This method builds SVG markup directly as a string, making it suitable
    * for server-side rendering (SSR) environments like Astro, Next.js, or Nuxt
-   * where `document` is not available.
+   * where `document` is not available. The SVG is sized in the physical unit
+   * of the options, so it prints at the intended size.
+   *
+   * In compact mode, the bars are a single path over a background rectangle,
+   * which renders the same pixels with a fraction of the markup.
    *
    * @returns The SVG markup as a string
    */
   toSVGString(): string {
-    const data = this.toBarcodeData();
-    const rects = data.stripes
-      .map(
-        (s) =>
-          `<rect width="${s.width}" height="${s.height}" fill="${s.color}" x="${s.x}" y="0"/>`,
-      )
-      .join('');
-
-    return `<svg xmlns="${SVG_NAMESPACE}" width="100%" height="100%" viewBox="0 0 ${data.viewBoxWidth} ${data.viewBoxHeight}">${rects}</svg>`;
+    return serialize(this.tree());
   }
 
   /**
    * Appends an SVG object and renders the barcode inside it
    *
-   * The structure of the SVG is a series of parallel rectangular stripes whose
-   * colors alternate between black or white.
-   * These stripes are placed from left to right. Their width will vary
-   * depending on their weight, which can be either 1 or 2.
+   * The structure of the SVG is a series of parallel rectangular stripes
+   * whose colors alternate between the foreground and the background, behind
+   * which a background rectangle fills the quiet zones, if any. These stripes
+   * are placed from left to right. Their width will vary depending on their
+   * weight. In compact mode, the bars are a single path over a background
+   * rectangle instead.
    *
    * When no selector is provided, this method uses a pure string builder
    * (no DOM dependency), making it safe for SSR environments.
@@ -172,25 +450,7 @@ export class SVG {
       return this.toSVGString();
     }
 
-    const data = this.toBarcodeData();
-    const svg = document.createElementNS(SVG_NAMESPACE, 'svg');
-
-    for (const stripe of data.stripes) {
-      const shape = document.createElementNS(SVG_NAMESPACE, 'rect');
-      shape.setAttribute('width', String(stripe.width));
-      shape.setAttribute('height', String(stripe.height));
-      shape.setAttribute('fill', stripe.color);
-      shape.setAttribute('x', String(stripe.x));
-      shape.setAttribute('y', '0');
-      svg.appendChild(shape);
-    }
-
-    svg.setAttribute('width', '100%');
-    svg.setAttribute('height', '100%');
-    svg.setAttribute(
-      'viewBox',
-      `0 0 ${data.viewBoxWidth} ${data.viewBoxHeight}`,
-    );
+    const svg = createNode(this.tree());
 
     const element = document.querySelector(selector);
     if (!element) {
@@ -200,20 +460,250 @@ export class SVG {
     return null;
   }
 
+  /**
+   * Builds the SVG element of the barcode
+   *
+   * With a title, description or `describedBy`, the SVG gets the `img` role,
+   * so that screen readers announce it as a single labelled image. The title
+   * and description come first, as SVG requires, and the human-readable text
+   * last, in a band under the bars.
+   *
+   * @returns The SVG element and its children
+   */
+  private tree(): SVGNode {
+    const {
+      background,
+      foreground,
+      compact,
+      quietZone,
+      height,
+      fontSize,
+      title,
+      description,
+      describedBy,
+      text,
+    } = this.options;
+    const viewBoxWidth = this.viewBoxWidth();
+    const viewBoxHeight = this.viewBoxHeight();
+    const [width, svgHeight] = this.dimensions();
+
+    const attributes: SVGNode['attributes'] = { xmlns: SVG_NAMESPACE };
+    if (
+      title !== undefined ||
+      description !== undefined ||
+      describedBy !== undefined
+    ) {
+      attributes.role = 'img';
+    }
+    if (title !== undefined) attributes['aria-label'] = title;
+    if (describedBy !== undefined) {
+      attributes['aria-describedby'] = describedBy;
+    }
+    attributes.width = width;
+    attributes.height = svgHeight;
+    attributes.viewBox = `0 0 ${viewBoxWidth} ${viewBoxHeight}`;
+
+    const children: SVGNode[] = [];
+    if (title !== undefined) {
+      children.push({ name: 'title', attributes: {}, text: title });
+    }
+    if (description !== undefined) {
+      children.push({ name: 'desc', attributes: {}, text: description });
+    }
+    if (compact || quietZone > 0) {
+      children.push({
+        name: 'rect',
+        attributes: { width: '100%', height: '100%', fill: background },
+      });
+    }
+
+    if (compact) {
+      const path = this.compactPath();
+      const bars: SVGNode = {
+        name: 'path',
+        attributes: { d: path.d, fill: foreground },
+      };
+      // The path is one unit tall and stretched to the bars, so the text
+      // needs a view box of its own to keep its proportions
+      if (text === undefined) {
+        attributes.viewBox = `0 0 ${path.viewBoxWidth} 1`;
+        attributes.preserveAspectRatio = 'none';
+        children.push(bars);
+      } else {
+        children.push({
+          name: 'svg',
+          attributes: {
+            width: viewBoxWidth,
+            height,
+            viewBox: `0 0 ${path.viewBoxWidth} 1`,
+            preserveAspectRatio: 'none',
+          },
+          children: [bars],
+        });
+      }
+    } else {
+      for (const stripe of this.toBarcodeData().stripes) {
+        children.push({
+          name: 'rect',
+          attributes: {
+            width: stripe.width,
+            height: stripe.height,
+            fill: stripe.color,
+            x: stripe.x,
+            y: 0,
+          },
+        });
+      }
+    }
+
+    if (text !== undefined) {
+      children.push({
+        name: 'text',
+        attributes: {
+          x: round(viewBoxWidth / 2),
+          y: round(height + fontSize * 1.2),
+          'font-family': 'monospace',
+          'font-size': fontSize,
+          'text-anchor': 'middle',
+          fill: foreground,
+        },
+        text,
+      });
+    }
+
+    return { name: 'svg', attributes, children };
+  }
+
   /**
    * Calculates the total width of the barcode
    *
-   * The calculation method is the sum of the weight of the stripes multiplied
-   * by the width of a single-weighted stripe
+   * The calculation method is the sum of the widths of the stripes, each its
+   * weight multiplied by the width of a single-weighted stripe, plus the
+   * quiet zones on both sides
    *
    * @returns The width of a view box that fits the barcode
    */
   viewBoxWidth(): number {
-    return this.stripes.reduce((a, b) => a + b, 0) * this.stripeWidth;
+    return round(
+      this.stripes.reduce((a, b) => a + this.stripeLength(b), 0) +
+        2 * this.quietZoneWidth(),
+    );
+  }
+
+  /**
+   * Calculates the height of the barcode
+   *
+   * @returns The height of the bars, plus the text band under them, if any
+   */
+  private viewBoxHeight(): number {
+    const { height, fontSize, text } = this.options;
+    return text === undefined
+      ? height
+      : round(height + fontSize * TEXT_BAND_HEIGHT);
+  }
+
+  /**
+   * Calculates the width of a stripe of the given weight
+   *
+   * With a resolution set, the width is rounded to a whole number of dots,
+   * and never below one dot.
+   *
+   * @param weight - The weight of the stripe
+   * @returns The width of the stripe, in `unit`
+   */
+  private stripeLength(weight: number): number {
+    const width = weight * this.stripeWidth;
+    const { dpi, unit } = this.options;
+    if (dpi === undefined || weight === 0) return width;
+
+    const unitsPerDot = UNITS_PER_INCH[unit] / dpi;
+    return Math.max(1, Math.round(width / unitsPerDot)) * unitsPerDot;
+  }
+
+  /**
+   * Calculates the width of a stripe of the given weight in grid units
+   *
+   * The grid unit is a single-weighted stripe, or a printer dot when a
+   * resolution is set, so that every stripe is a whole number of units wide.
+   *
+   * @param weight - The weight of the stripe
+   * @returns The width of the stripe, in grid units
+   */
+  private gridLength(weight: number): number {
+    const { dpi, unit } = this.options;
+    if (dpi === undefined) return weight;
+    return Math.round((this.stripeLength(weight) * dpi) / UNITS_PER_INCH[unit]);
+  }
+
+  /**
+   * Draws the bars as the data of a single path, in grid units
+   *
+   * Bars that touch are merged into one run, and each run is a subpath one
+   * unit tall, which the SVG stretches to the barcode height. With a whole
+   * number of narrow bars in the quiet zones, every coordinate is an integer.
+   *
+   * @returns The path data and the width of a view box that fits the barcode
+   */
+  private compactPath(): { d: string; viewBoxWidth: number } {
+    const narrowest = Math.min(...this.stripes.filter(Boolean));
+    const quietZone = Number.isFinite(narrowest)
+      ? round(this.options.quietZone * this.gridLength(narrowest))
+      : 0;
+
+    const runs: [number, number][] = [];
+    let pos = quietZone;
+    this.stripes.forEach((weight, i) => {
+      const width = this.gridLength(weight);
+      const last = runs[runs.length - 1];
+      if (i % 2 === 0 && width > 0) {
+        if (last && last[0] + last[1] === pos) last[1] += width;
+        else runs.push([pos, width]);
+      }
+      pos += width;
+    });
+
+    // Each subpath closes back at its start, so the next one moves from there
+    let start = 0;
+    const d = runs
+      .map(([x, width], i) => {
+        const move = `${i ? 'm' : 'M'}${round(x - start)} 0`;
+        start = x;
+        return `${move}h${width}v1h-${width}z`;
+      })
+      .join('');
+
+    return { d, viewBoxWidth: round(pos + quietZone) };
+  }
+
+  /**
+   * Calculates the width of each quiet zone
+   *
+   * @returns The width of a quiet zone, in `unit`
+   */
+  private quietZoneWidth(): number {
+    const narrowest = Math.min(...this.stripes.filter(Boolean));
+    return Number.isFinite(narrowest)
+      ? this.options.quietZone * this.stripeLength(narrowest)
+      : 0;
+  }
+
+  /**
+   * Returns the width and height attributes of the SVG element
+   *
+   * @returns The physical width and height, with their unit (CSS pixels have
+   *          none), or the full size of the container for a fluid SVG
+   */
+  private dimensions(): [string, string] {
+    if (this.fluid) return ['100%', '100%'];
+    const suffix = this.options.unit === 'px' ? '' : this.options.unit;
+    return [
+      `${this.viewBoxWidth()}${suffix}`,
+      `${this.viewBoxHeight()}${suffix}`,
+    ];
   }
 
   /**
-   * Returns the appropriate color for each stripe
+   * Returns the default color for each stripe
    *
    * Odd numbers will return white, even will return black
    *